@@ -1,6 +1,6 @@
 'use client';
 
-import { MermaidVibes, exportAsPNG, exportAsJPG, exportAsSVG, NodeEventData, EdgeEventData } from '@/components/MermaidRenderer';
+import { MermaidVibes, MermaidVibesHandle, NodeEventData, EdgeEventData } from '@/components/MermaidRenderer';
 import { useState, useRef } from 'react';
 
 const exampleDiagrams = {
@@ -65,35 +65,32 @@ export default function Home() {
   const [selectedDiagram, setSelectedDiagram] = useState<keyof typeof exampleDiagrams>('sequence');
   const [eventLog, setEventLog] = useState<string[]>([]);
   const svgContainerRef = useRef<HTMLDivElement>(null);
+  const diagramRef = useRef<MermaidVibesHandle>(null);
 
   // Event handlers
   const handleNodeClick = (data: NodeEventData) => {
-    setEventLog(prev => [`Node clicked: ${data.label || 'Unnamed'}`, ...prev].slice(0, 5));
+    const source = data.id ? ` (${data.id}, line ${data.line ?? '?'})` : '';
+    setEventLog(prev => [`Node clicked: ${data.label || 'Unnamed'}${source}`, ...prev].slice(0, 5));
   };
 
 
   const handleEdgeClick = (data: EdgeEventData) => {
-    setEventLog(prev => [`Edge clicked: ${data.label || 'Unnamed'}`, ...prev].slice(0, 5));
+    const source = data.id ? ` (${data.from} → ${data.to}, line ${data.line ?? '?'})` : '';
+    setEventLog(prev => [`Edge clicked: ${data.label || 'Unnamed'}${source}`, ...prev].slice(0, 5));
   };
 
   // Export handlers
-  const handleExport = async (format: 'png' | 'jpg' | 'svg') => {
-    const svgElement = document.querySelector('.mermaid-renderer svg') as SVGSVGElement;
-    if (!svgElement) return;
+  const handleExport = async (format: 'png' | 'jpg' | 'svg' | 'pdf' | 'gif') => {
+    if (!diagramRef.current) return;
 
     try {
       setEventLog(prev => [`Exporting as ${format.toUpperCase()}...`, ...prev].slice(0, 5));
-
-      switch (format) {
-        case 'png':
-          await exportAsPNG(svgElement, 'diagram.png');
-          break;
-        case 'jpg':
-          await exportAsJPG(svgElement, 'diagram.jpg');
-          break;
-        case 'svg':
-          await exportAsSVG(svgElement, 'diagram.svg');
-          break;
+      if (format === 'pdf') {
+        await diagramRef.current.exportAsPDF({ title: selectedDiagram, footer: 'Generated with Mermaid Vibes' });
+      } else if (format === 'gif') {
+        await diagramRef.current.exportAsAnimation({ format: 'gif', padding: 24 });
+      } else {
+        await diagramRef.current.exportAs(format);
       }
       setEventLog(prev => [`Successfully exported as ${format.toUpperCase()}`, ...prev].slice(0, 5));
     } catch (error) {
@@ -152,13 +149,27 @@ export default function Home() {
           >
             Export SVG
           </button>
+          <button
+            onClick={() => handleExport('pdf')}
+            className="px-4 py-2 bg-red-600 text-white rounded-md font-semibold hover:bg-red-700 transition-colors"
+          >
+            Export PDF
+          </button>
+          <button
+            onClick={() => handleExport('gif')}
+            className="px-4 py-2 bg-amber-600 text-white rounded-md font-semibold hover:bg-amber-700 transition-colors"
+          >
+            Export GIF
+          </button>
         </div>
 
         <div className="mb-8" ref={svgContainerRef}>
           <MermaidVibes
+            ref={diagramRef}
             chart={exampleDiagrams[selectedDiagram]}
             onNodeClick={handleNodeClick}
             onEdgeClick={handleEdgeClick}
+            focusOnClick
           />
         </div>
 
@@ -202,10 +213,11 @@ export default function Home() {
                 <li>✨ Glowing borders on all nodes with subtle animated pulse effects</li>
                 <li>🌊 Pulsing arrows that breathe with color transitions</li>
                 <li>💫 Sequential animated light particles traveling along arrow paths</li>
-                <li>🖼️ Logo support in sequence diagrams - add images with <code className="bg-teal-100 text-teal-800 px-1 rounded text-sm">img:path/to/logo.png</code></li>
+                <li>🖼️ Images and icons in nodes - add them with <code className="bg-teal-100 text-teal-800 px-1 rounded text-sm">img:path/to/logo.png</code> or a registered <code className="bg-teal-100 text-teal-800 px-1 rounded text-sm">icon:set-name</code></li>
                 <li>📏 Enlarged sequence diagrams with bigger text and spacing</li>
                 <li>🎯 Support for all Mermaid diagram types</li>
                 <li>🎭 Interactive events - click on nodes and edges</li>
+                <li>🚦 Live node status - pass <code className="bg-teal-100 text-teal-800 px-1 rounded text-sm">nodeStatus</code> to show running, failed and pending jobs without re-rendering</li>
                 <li>🎨 Themable - customize colors, stroke widths, and fonts</li>
                 <li>📦 Export diagrams as PNG, JPG, or SVG</li>
                 <li>⚡ Easily embeddable in any React app</li>
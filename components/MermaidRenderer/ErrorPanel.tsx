@@ -0,0 +1,41 @@
+'use client';
+
+/**
+ * ErrorPanel Component
+ *
+ * Built-in fallback shown when a chart fails to parse or render.
+ * Displays the parser message along with the failing source line.
+ */
+
+import React from 'react';
+import { RenderErrorInfo } from './types';
+import { getSourceLine } from './errorUtils';
+
+interface ErrorPanelProps {
+  error: Error;
+  info: RenderErrorInfo;
+}
+
+export const ErrorPanel: React.FC<ErrorPanelProps> = ({ error, info }) => {
+  const sourceLine = info.line !== undefined ? getSourceLine(info.chart, info.line) : undefined;
+
+  return (
+    <div className="mermaid-error" role="alert">
+      <div className="mermaid-error-title">
+        Unable to render diagram
+        {info.line !== undefined && (
+          <span className="mermaid-error-location">
+            {' '}(line {info.line}{info.column !== undefined ? `, column ${info.column}` : ''})
+          </span>
+        )}
+      </div>
+      <pre className="mermaid-error-message">{error.message}</pre>
+      {sourceLine !== undefined && (
+        <pre className="mermaid-error-source">
+          <span className="mermaid-error-line-number">{info.line}</span>
+          {sourceLine}
+        </pre>
+      )}
+    </div>
+  );
+};
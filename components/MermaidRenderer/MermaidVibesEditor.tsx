@@ -0,0 +1,186 @@
+'use client';
+
+/**
+ * MermaidVibesEditor Component
+ *
+ * Split view of a highlighted Mermaid source editor and a live MermaidVibes preview.
+ * The preview re-renders after a pause in typing and keeps the last good diagram
+ * while the source doesn't parse; the parser's diagnostic is shown against its line.
+ * Malformed image declarations are shown as warnings and don't hold the preview back.
+ *
+ * @example
+ * ```tsx
+ * <MermaidVibesEditor defaultValue={'graph TD\n  A[Start] --> B[End]'} previewProps={{ theme: 'dark' }} />
+ * ```
+ */
+
+import React, { forwardRef, useEffect, useId, useMemo, useRef, useState } from 'react';
+import { EditorDiagnostic, MermaidVibesEditorProps, MermaidVibesHandle, RenderErrorInfo } from './types';
+import { EDITOR_DEBOUNCE } from './constants';
+import { highlightChart, validateChart } from './editorUtils';
+import { MermaidVibes } from './index';
+
+export const MermaidVibesEditor = forwardRef<MermaidVibesHandle, MermaidVibesEditorProps>(({
+  value,
+  defaultValue = '',
+  onChange,
+  debounce = EDITOR_DEBOUNCE,
+  layout = 'horizontal',
+  onDiagnostic,
+  previewProps,
+  className = '',
+}, ref) => {
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const diagnosticId = `${useId()}-diagnostic`;
+
+  // Source is controlled when `value` is set
+  const [uncontrolledValue, setUncontrolledValue] = useState(defaultValue);
+  const source = value ?? uncontrolledValue;
+  const lines = useMemo(() => highlightChart(source), [source]);
+
+  // Only charts that parse reach the preview, so it keeps showing the last good one
+  const [previewChart, setPreviewChart] = useState(source);
+  const [diagnostic, setDiagnostic] = useState<EditorDiagnostic | null>(null);
+  const lastRenderedRef = useRef<string | null>(null);
+
+  // Report diagnostic changes; the callback is read through a ref so inline handlers don't re-report
+  const onDiagnosticRef = useRef(onDiagnostic);
+  useEffect(() => {
+    onDiagnosticRef.current = onDiagnostic;
+  }, [onDiagnostic]);
+  const diagnosticKey = JSON.stringify(diagnostic);
+  const reportedKeyRef = useRef(diagnosticKey);
+  useEffect(() => {
+    if (diagnosticKey === reportedKeyRef.current) return;
+    reportedKeyRef.current = diagnosticKey;
+    onDiagnosticRef.current?.(JSON.parse(diagnosticKey));
+  }, [diagnosticKey]);
+
+  // Validate after a pause in typing
+  useEffect(() => {
+    let cancelled = false;
+
+    const timer = setTimeout(async () => {
+      const next = source.trim() ? await validateChart(source) : null;
+      if (cancelled) return;
+      setDiagnostic(next);
+      if (!next || next.severity === 'warning') {
+        setPreviewChart(source);
+      }
+    }, debounce);
+
+    // Ignore validations superseded by a newer edit
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [source, debounce]);
+
+  const handleChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const next = event.target.value;
+    if (value === undefined) {
+      setUncontrolledValue(next);
+    }
+    onChange?.(next);
+  };
+
+  // The highlight layer and line numbers scroll with the textarea
+  const handleScroll = (event: React.UIEvent<HTMLTextAreaElement>) => {
+    const { scrollTop, scrollLeft } = event.currentTarget;
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = scrollTop;
+      highlightRef.current.scrollLeft = scrollLeft;
+    }
+    if (gutterRef.current) {
+      gutterRef.current.scrollTop = scrollTop;
+    }
+  };
+
+  // Charts that parse but fail to render are reported too, and the last rendered chart comes back
+  const handleRenderError = (error: Error, info: RenderErrorInfo) => {
+    previewProps?.onError?.(error, info);
+    setDiagnostic({ message: error.message, line: info.line, column: info.column });
+    if (lastRenderedRef.current !== null) {
+      setPreviewChart(lastRenderedRef.current);
+    }
+  };
+
+  const handleRenderComplete = (svgElement: SVGSVGElement) => {
+    lastRenderedRef.current = previewChart;
+    previewProps?.onRenderComplete?.(svgElement);
+  };
+
+  const errorLine = diagnostic?.line;
+  const isWarning = diagnostic?.severity === 'warning';
+  const lineClass = isWarning ? 'has-warning' : 'has-error';
+  const location = errorLine !== undefined
+    ? `Line ${errorLine}${diagnostic?.column !== undefined ? `, column ${diagnostic.column}` : ''}`
+    : 'Syntax error';
+
+  return (
+    <div className={`mermaid-editor mermaid-editor-${layout} ${className}`}>
+      <div className="mermaid-editor-source">
+        <div className="mermaid-editor-body">
+          <div ref={gutterRef} className="mermaid-editor-gutter" aria-hidden="true">
+            {lines.map((_, index) => (
+              <div
+                key={index}
+                className={index + 1 === errorLine ? lineClass : undefined}
+                title={index + 1 === errorLine ? diagnostic?.message : undefined}
+              >
+                {index + 1}
+              </div>
+            ))}
+          </div>
+          <div className="mermaid-editor-code">
+            <pre ref={highlightRef} className="mermaid-editor-highlight" aria-hidden="true">
+              {lines.map((tokens, index) => (
+                <div key={index} className={`mermaid-editor-line ${index + 1 === errorLine ? lineClass : ''}`}>
+                  {tokens.length === 0 ? ' ' : tokens.map((token, tokenIndex) => (
+                    token.type === 'text'
+                      ? <React.Fragment key={tokenIndex}>{token.text}</React.Fragment>
+                      : <span key={tokenIndex} className={`mermaid-token-${token.type}`}>{token.text}</span>
+                  ))}
+                </div>
+              ))}
+            </pre>
+            <textarea
+              className="mermaid-editor-input"
+              value={source}
+              onChange={handleChange}
+              onScroll={handleScroll}
+              wrap="off"
+              spellCheck={false}
+              autoCapitalize="off"
+              autoComplete="off"
+              aria-label="Mermaid source"
+              aria-invalid={diagnostic && !isWarning ? true : undefined}
+              aria-describedby={diagnostic ? diagnosticId : undefined}
+            />
+          </div>
+        </div>
+        {diagnostic && (
+          <div id={diagnosticId} className={`mermaid-editor-diagnostic ${isWarning ? 'is-warning' : ''}`} role="status">
+            <span className="mermaid-editor-diagnostic-location">{location}</span>
+            <pre className="mermaid-editor-diagnostic-message">{diagnostic.message}</pre>
+          </div>
+        )}
+      </div>
+      <div className="mermaid-editor-preview">
+        {previewChart.trim() && (
+          <MermaidVibes
+            ref={ref}
+            {...previewProps}
+            chart={previewChart}
+            onError={handleRenderError}
+            onRenderComplete={handleRenderComplete}
+            renderError={previewProps?.renderError ?? (() => null)}
+          />
+        )}
+      </div>
+    </div>
+  );
+});
+
+MermaidVibesEditor.displayName = 'MermaidVibesEditor';
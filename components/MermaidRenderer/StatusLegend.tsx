@@ -0,0 +1,27 @@
+'use client';
+
+/**
+ * StatusLegend Component
+ *
+ * Legend of the node statuses shown on the diagram, with how many nodes have each.
+ */
+
+import React from 'react';
+import { NodeStatus } from './types';
+import { NODE_STATUS_LABELS } from './constants';
+
+interface StatusLegendProps {
+  counts: Array<[NodeStatus, number]>;
+}
+
+export const StatusLegend: React.FC<StatusLegendProps> = ({ counts }) => (
+  <ul className="mermaid-status-legend" aria-label="Node status">
+    {counts.map(([status, count]) => (
+      <li key={status} className={`mermaid-status-legend-item status-${status}`}>
+        <span className="mermaid-status-swatch" aria-hidden="true" />
+        {NODE_STATUS_LABELS[status]}
+        <span className="mermaid-status-count">{count}</span>
+      </li>
+    ))}
+  </ul>
+);
@@ -0,0 +1,88 @@
+'use client';
+
+/**
+ * Tooltip Component
+ *
+ * Themed tooltip anchored to a node or edge. It is rendered into the document body, so
+ * it is never clipped by the diagram and events on it never reach the diagram's pan,
+ * lasso or click handling; the theme variables are copied over from the diagram, again
+ * whenever its theme changes. Its position is re-measured every frame while it is shown,
+ * so it follows the anchor through scrolling, zooming, panning and morph transitions.
+ */
+
+import React, { useLayoutEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { positionTooltip } from './tooltipUtils';
+
+/**
+ * Theme variables the tooltip styles use
+ */
+const THEME_VARIABLES = ['--mv-primary', '--mv-text', '--mv-surface-solid', '--mv-glow'];
+
+interface TooltipProps {
+  id: string;
+  anchor: Element;
+  onMouseEnter: () => void;
+  onMouseLeave: () => void;
+  children: React.ReactNode;
+}
+
+export const Tooltip: React.FC<TooltipProps> = ({ id, anchor, onMouseEnter, onMouseLeave, children }) => {
+  const tooltipRef = useRef<HTMLDivElement>(null);
+
+  // Theme and color scheme switches change the container's style or class, so copy again when they do
+  useLayoutEffect(() => {
+    const element = tooltipRef.current;
+    const themeSource = anchor.closest('.mermaid-container');
+    if (!element || !themeSource) return;
+
+    const copyTheme = () => {
+      const themeStyle = getComputedStyle(themeSource);
+      THEME_VARIABLES.forEach((name) => element.style.setProperty(name, themeStyle.getPropertyValue(name)));
+    };
+
+    copyTheme();
+    const observer = new MutationObserver(copyTheme);
+    observer.observe(themeSource, { attributes: true, attributeFilter: ['style', 'class'] });
+    return () => observer.disconnect();
+  }, [anchor]);
+
+  useLayoutEffect(() => {
+    const element = tooltipRef.current;
+    if (!element) return;
+
+    let animationFrameId = 0;
+    const update = () => {
+      const anchorRect = anchor.getBoundingClientRect();
+      const isVisible = anchor.isConnected
+        && anchorRect.bottom > 0 && anchorRect.top < window.innerHeight
+        && anchorRect.right > 0 && anchorRect.left < window.innerWidth;
+      element.style.visibility = isVisible ? '' : 'hidden';
+
+      if (isVisible) {
+        const { left, top, placement } = positionTooltip(anchorRect, element.offsetWidth, element.offsetHeight);
+        element.style.transform = `translate(${left}px, ${top}px)`;
+        element.dataset.placement = placement;
+      }
+
+      animationFrameId = requestAnimationFrame(update);
+    };
+
+    update();
+    return () => cancelAnimationFrame(animationFrameId);
+  }, [anchor]);
+
+  return createPortal(
+    <div
+      ref={tooltipRef}
+      id={id}
+      className="mermaid-tooltip"
+      role="tooltip"
+      onMouseEnter={onMouseEnter}
+      onMouseLeave={onMouseLeave}
+    >
+      {children}
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,25 @@
+'use client';
+
+/**
+ * ZoomControls Component
+ *
+ * Small overlay with zoom in, zoom out, reset and fit-to-view buttons.
+ */
+
+import React from 'react';
+
+interface ZoomControlsProps {
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onReset: () => void;
+  onFit: () => void;
+}
+
+export const ZoomControls: React.FC<ZoomControlsProps> = ({ onZoomIn, onZoomOut, onReset, onFit }) => (
+  <div className="mermaid-zoom-controls" role="toolbar" aria-label="Zoom controls">
+    <button type="button" onClick={onZoomIn} aria-label="Zoom in" title="Zoom in">+</button>
+    <button type="button" onClick={onZoomOut} aria-label="Zoom out" title="Zoom out">−</button>
+    <button type="button" onClick={onReset} aria-label="Reset zoom" title="Reset zoom">1:1</button>
+    <button type="button" onClick={onFit} aria-label="Fit to view" title="Fit to view">⤢</button>
+  </div>
+);
@@ -0,0 +1,285 @@
+/**
+ * Keyboard navigation and screen reader support
+ *
+ * Nodes and edges become focusable with Tab, and arrow keys follow the diagram's connections
+ * between nodes and edges. Elements are found through the `data-node-id` /
+ * `data-edge-id` attributes stamped by annotateDiagram, and named from the diagram model.
+ */
+
+import { DiagramEdge, DiagramModel } from './types';
+import { MERMAID_SELECTORS } from './constants';
+import { findEdgePathElement } from './diagramModel';
+import { buildGraph, Graph } from './focusUtils';
+
+/**
+ * A node or edge that can take keyboard focus
+ */
+type NavigationTarget = { type: 'node'; id: string } | { type: 'edge'; id: string };
+
+/**
+ * Which ARIA roles the focusable elements get
+ * Clickable elements are buttons, so screen readers announce that Enter does something
+ */
+interface AccessibilityOptions {
+  /** Id of the element holding the generated description */
+  descriptionId?: string;
+  clickableNodes?: boolean;
+  clickableEdges?: boolean;
+}
+
+/**
+ * Returns a readable name for a diagram type
+ */
+function getDiagramName(type: string): string {
+  if (type.startsWith('flowchart') || type === 'graph') return 'Flowchart';
+  if (type === 'sequence') return 'Sequence diagram';
+  if (type.startsWith('class')) return 'Class diagram';
+  if (type.startsWith('state')) return 'State diagram';
+  if (type === 'er') return 'Entity relationship diagram';
+  if (type === 'mindmap') return 'Mindmap';
+  return 'Diagram';
+}
+
+/**
+ * Formats a count with a singular or plural noun
+ */
+const pluralize = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Returns the name a node is announced by: its label, or its id
+ * State diagram start/end pseudo-states ([*]) have generated ids and no label
+ */
+export function getNodeName(model: DiagramModel, nodeId: string): string {
+  const label = model.nodes.get(nodeId)?.label?.trim();
+  if (label && label !== nodeId) return label;
+
+  if (model.type.startsWith('state')) {
+    if (/(?:^|_)start$/.test(nodeId)) return 'Start';
+    if (/(?:^|_)end$/.test(nodeId)) return 'End';
+  }
+  return label || nodeId;
+}
+
+/**
+ * Describes one edge as a sentence, e.g. "Decision Point, if Yes, goes to Approve"
+ */
+export function describeEdge(model: DiagramModel, edge: DiagramEdge): string {
+  const from = getNodeName(model, edge.from);
+  const to = getNodeName(model, edge.to);
+  const label = edge.label?.trim();
+
+  if (model.type === 'sequence') return label ? `${from} to ${to}: ${label}` : `${from} to ${to}`;
+  if (!label) return `${from} connects to ${to}`;
+  if (model.type.startsWith('flowchart')) return `${from}, if ${label}, goes to ${to}`;
+  if (model.type.startsWith('state')) return `${from}, on ${label}, goes to ${to}`;
+  return `${from} ${label} ${to}`;
+}
+
+/**
+ * Describes every connection in source order, followed by any nodes without connections
+ */
+export function describeConnections(model: DiagramModel): string[] {
+  const connected = new Set<string>();
+  const sentences = Array.from(model.edges.values(), (edge) => {
+    connected.add(edge.from);
+    connected.add(edge.to);
+    return describeEdge(model, edge);
+  });
+
+  model.nodes.forEach((node) => {
+    if (!connected.has(node.id)) {
+      sentences.push(`${getNodeName(model, node.id)} has no connections`);
+    }
+  });
+
+  return sentences;
+}
+
+/**
+ * Generates a text alternative for a diagram, e.g.
+ * "Flowchart with 3 nodes and 2 connections. Start connects to Decision Point; Decision Point, if Yes, goes to Approve."
+ * Returns an empty string for diagrams without a node model (pie, gantt, ...)
+ */
+export function describeDiagram(model: DiagramModel): string {
+  if (model.nodes.size === 0) return '';
+
+  const isSequence = model.type === 'sequence';
+  const summary = `${getDiagramName(model.type)} with ${pluralize(model.nodes.size, isSequence ? 'participant' : 'node')}`
+    + ` and ${pluralize(model.edges.size, isSequence ? 'message' : 'connection')}.`;
+  const connections = describeConnections(model);
+
+  return connections.length > 0 ? `${summary} ${connections.join('; ')}.` : summary;
+}
+
+/**
+ * Finds the element of a node that takes keyboard focus
+ * Prefers the element that carries the click and hover handlers; sequence actors are drawn twice, the top box wins
+ */
+function findFocusableNode(svgElement: SVGSVGElement, nodeId: string): SVGElement | null {
+  const candidates = Array.from(svgElement.querySelectorAll('[data-node-id]')).filter(
+    (element) => element.getAttribute('data-node-id') === nodeId
+  );
+  const element = candidates.find((candidate) => candidate.matches(MERMAID_SELECTORS.interactiveNodes)) ?? candidates[0];
+  return (element as SVGElement) ?? null;
+}
+
+/**
+ * Makes nodes and edges focusable and names them and the diagram for screen readers
+ * Nodes are Tab stops; edges share one roving Tab stop, which moves to whichever edge
+ * last had focus (see setupKeyboardNavigation), and the arrow keys move between them
+ * Returns a function that restores the attributes it changed
+ */
+export function makeDiagramAccessible(
+  svgElement: SVGSVGElement,
+  model: DiagramModel,
+  options: AccessibilityOptions = {}
+): () => void {
+  const { descriptionId, clickableNodes = false, clickableEdges = false } = options;
+
+  const changed: Array<[Element, string, string | null]> = [];
+  const setAttribute = (element: Element, name: string, value: string) => {
+    changed.push([element, name, element.getAttribute(name)]);
+    element.setAttribute(name, value);
+  };
+
+  // Keep any description Mermaid added for the chart's accDescr
+  if (descriptionId) {
+    const ids = new Set((svgElement.getAttribute('aria-describedby') ?? '').split(/\s+/).filter(Boolean));
+    ids.add(descriptionId);
+    setAttribute(svgElement, 'aria-describedby', Array.from(ids).join(' '));
+  }
+
+  model.nodes.forEach((node) => {
+    const element = findFocusableNode(svgElement, node.id);
+    if (!element) return;
+    setAttribute(element, 'tabindex', '0');
+    setAttribute(element, 'role', clickableNodes ? 'button' : 'img');
+    setAttribute(element, 'aria-label', getNodeName(model, node.id));
+  });
+
+  let hasEdgeStop = false;
+  model.edges.forEach((edge) => {
+    const element = findEdgePathElement(svgElement, edge.id);
+    if (!element) return;
+    setAttribute(element, 'tabindex', hasEdgeStop ? '-1' : '0');
+    setAttribute(element, 'role', clickableEdges ? 'button' : 'img');
+    setAttribute(element, 'aria-label', describeEdge(model, edge));
+    hasEdgeStop = true;
+  });
+
+  return () => {
+    [...changed].reverse().forEach(([element, name, value]) => {
+      if (value === null) {
+        element.removeAttribute(name);
+      } else {
+        element.setAttribute(name, value);
+      }
+    });
+  };
+}
+
+/**
+ * Returns the neighbor of `items` at `offset` from `current`, wrapping around
+ */
+function step<T>(items: T[], current: T, offset: number): T | undefined {
+  const index = items.indexOf(current);
+  return index === -1 ? undefined : items[(index + offset + items.length) % items.length];
+}
+
+/**
+ * Resolves where an arrow key moves focus from a node or edge
+ * Up/Down follow connections (a node's incoming/outgoing edges, an edge's source/target);
+ * Left/Right move between siblings (nodes in source order, edges leaving the same node,
+ * or messages in order for sequence diagrams). Home/End jump to the first/last node.
+ */
+function getNavigationTarget(
+  model: DiagramModel,
+  graph: Graph,
+  current: NavigationTarget,
+  key: string
+): NavigationTarget | null {
+  const nodeIds = Array.from(model.nodes.keys());
+  const node = (id: string | undefined): NavigationTarget | null => (id ? { type: 'node', id } : null);
+  const edge = (value: DiagramEdge | undefined): NavigationTarget | null => (value ? { type: 'edge', id: value.id } : null);
+
+  if (key === 'Home') return node(nodeIds[0]);
+  if (key === 'End') return node(nodeIds[nodeIds.length - 1]);
+
+  if (current.type === 'node') {
+    switch (key) {
+      case 'ArrowDown': return edge(graph.outgoing.get(current.id)?.[0]);
+      case 'ArrowUp': return edge(graph.incoming.get(current.id)?.[0]);
+      case 'ArrowRight': return node(step(nodeIds, current.id, 1));
+      case 'ArrowLeft': return node(step(nodeIds, current.id, -1));
+      default: return null;
+    }
+  }
+
+  const currentEdge = model.edges.get(current.id);
+  if (!currentEdge) return null;
+  const siblings = model.type === 'sequence'
+    ? Array.from(model.edges.values())
+    : graph.outgoing.get(currentEdge.from) ?? [];
+
+  switch (key) {
+    case 'ArrowDown': return node(currentEdge.to);
+    case 'ArrowUp': return node(currentEdge.from);
+    case 'ArrowRight': return edge(step(siblings, currentEdge, 1));
+    case 'ArrowLeft': return edge(step(siblings, currentEdge, -1));
+    default: return null;
+  }
+}
+
+/**
+ * Handles keys on the diagram's focusable elements: arrows move along connections,
+ * Enter and Space click the focused node or edge (triggering onNodeClick / onEdgeClick)
+ * Returns a function that removes the listeners
+ */
+export function setupKeyboardNavigation(svgElement: SVGSVGElement, model: DiagramModel): () => void {
+  const graph = buildGraph(model);
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.altKey || event.ctrlKey || event.metaKey) return;
+
+    const target = event.target as Element;
+    if (!target.hasAttribute?.('tabindex')) return;
+
+    const nodeId = target.getAttribute('data-node-id');
+    const edgeId = target.getAttribute('data-edge-id');
+    const current: NavigationTarget | null = nodeId
+      ? { type: 'node', id: nodeId }
+      : edgeId ? { type: 'edge', id: edgeId } : null;
+    if (!current) return;
+
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      target.dispatchEvent(new MouseEvent('click', { bubbles: true, cancelable: true }));
+      return;
+    }
+
+    const next = getNavigationTarget(model, graph, current, event.key);
+    const element = next?.type === 'node'
+      ? findFocusableNode(svgElement, next.id)
+      : next ? findEdgePathElement(svgElement, next.id) : null;
+    if (!element) return;
+
+    event.preventDefault();
+    element.focus();
+  };
+
+  // Move the edges' Tab stop to the focused edge, so Tab returns to where the user left off
+  const handleFocusIn = (event: FocusEvent) => {
+    const target = event.target as Element;
+    if (!target.hasAttribute?.('data-edge-id') || target.getAttribute('tabindex') !== '-1') return;
+
+    svgElement.querySelectorAll('[data-edge-id][tabindex="0"]').forEach((edge) => edge.setAttribute('tabindex', '-1'));
+    target.setAttribute('tabindex', '0');
+  };
+
+  svgElement.addEventListener('keydown', handleKeyDown);
+  svgElement.addEventListener('focusin', handleFocusIn);
+  return () => {
+    svgElement.removeEventListener('keydown', handleKeyDown);
+    svgElement.removeEventListener('focusin', handleFocusIn);
+  };
+}
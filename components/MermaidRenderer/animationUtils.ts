@@ -0,0 +1,117 @@
+/**
+ * Utilities for resolving the animation prop into particle config, particle style,
+ * and the CSS custom properties and classes used by styles.css
+ */
+
+import { AnimationOptions, AnimationQuality, ParticleStyle, ResolvedAnimation } from './types';
+import { ANIMATION_CSS_VARIABLES, PARTICLE_CONFIG } from './constants';
+
+/**
+ * Default durations of the CSS effects in milliseconds, matching the var() fallbacks in styles.css
+ */
+const EFFECT_DURATIONS = {
+  nodeGlow: 4000,
+  edgePulse: 3000,
+  markerPulse: 3000,
+};
+
+/**
+ * Container classes that switch each effect off
+ */
+const EFFECT_TOGGLE_CLASSES = {
+  nodeGlow: 'no-node-glow',
+  edgePulse: 'no-edge-pulse',
+  markerPulse: 'no-marker-pulse',
+  halo: 'no-particle-halo',
+} as const;
+
+/**
+ * Clamps a fade fraction so fading in and out never overlap
+ */
+const clampFade = (value: number) => Math.min(0.5, Math.max(0, value));
+
+/**
+ * Resolves AnimationOptions into particle config, CSS variables and toggle classes
+ * Speed divides every duration, so 2 makes particles and pulses run twice as fast
+ */
+export function resolveAnimation(options: AnimationOptions = {}): ResolvedAnimation {
+  const speed = options.speed && options.speed > 0 ? options.speed : 1;
+  const vars = ANIMATION_CSS_VARIABLES;
+  const cssVariables: Record<string, string> = {};
+
+  const setDuration = (name: string, duration: number | undefined, fallback: number) => {
+    if (duration !== undefined || speed !== 1) {
+      cssVariables[name] = `${Math.round((duration ?? fallback) / speed)}ms`;
+    }
+  };
+  setDuration(vars.nodeGlowDuration, options.nodeGlowDuration, EFFECT_DURATIONS.nodeGlow);
+  setDuration(vars.edgePulseDuration, options.edgePulseDuration, EFFECT_DURATIONS.edgePulse);
+  setDuration(vars.markerPulseDuration, options.markerPulseDuration, EFFECT_DURATIONS.markerPulse);
+
+  const particleSize = options.particleSize && options.particleSize > 0 ? options.particleSize : 1;
+  if (particleSize !== 1) {
+    cssVariables[vars.particleSize] = particleSize.toString();
+  }
+
+  const className = (Object.keys(EFFECT_TOGGLE_CLASSES) as Array<keyof typeof EFFECT_TOGGLE_CLASSES>)
+    .filter((effect) => options[effect] === false)
+    .map((effect) => EFFECT_TOGGLE_CLASSES[effect])
+    .join(' ');
+
+  return {
+    particleConfig: {
+      mode: options.particleMode ?? PARTICLE_CONFIG.mode,
+      renderer: options.particleRenderer ?? PARTICLE_CONFIG.renderer,
+      edgeWeights: options.edgeWeights,
+      particleCount: Math.max(1, Math.round(options.particleCount ?? PARTICLE_CONFIG.particleCount)),
+      minDuration: (options.minDuration ?? PARTICLE_CONFIG.minDuration) / speed,
+      maxDuration: (options.maxDuration ?? PARTICLE_CONFIG.maxDuration) / speed,
+      durationMultiplier: PARTICLE_CONFIG.durationMultiplier / speed,
+      easing: options.easing ?? PARTICLE_CONFIG.easing,
+      fadeIn: clampFade(options.fadeIn ?? PARTICLE_CONFIG.fadeIn),
+      fadeOut: clampFade(options.fadeOut ?? PARTICLE_CONFIG.fadeOut),
+    },
+    particleSize,
+    particleColor: options.particleColor,
+    cssVariables,
+    className,
+  };
+}
+
+/**
+ * Scales resolved animation settings down to a quality level
+ * Reduced keeps a single particle on screen at a time; minimal also switches off every glow and pulse.
+ * Static is handled by the component, which stops particles and CSS animations altogether.
+ */
+export function applyAnimationQuality(animation: ResolvedAnimation, quality: AnimationQuality): ResolvedAnimation {
+  if (quality === 'full') return animation;
+
+  const particleConfig = { ...animation.particleConfig, mode: 'sequential' as const, particleCount: 1, edgeWeights: undefined };
+  const className = quality === 'reduced'
+    ? animation.className
+    : Object.values(EFFECT_TOGGLE_CLASSES).join(' ');
+
+  return { ...animation, particleConfig, className };
+}
+
+/**
+ * Applies the animation's particle size and color on top of a theme's particle style
+ */
+export function applyAnimationToParticleStyle(style: ParticleStyle, animation: ResolvedAnimation): ParticleStyle {
+  const { particleSize, particleColor } = animation;
+  if (particleSize === 1 && !particleColor) return style;
+
+  return {
+    outerGlow: {
+      ...style.outerGlow,
+      radius: style.outerGlow.radius * particleSize,
+      fill: particleColor ?? style.outerGlow.fill,
+    },
+    core: {
+      ...style.core,
+      radius: style.core.radius * particleSize,
+      fill: particleColor ?? style.core.fill,
+    },
+    innerGlow: { ...style.innerGlow, radius: style.innerGlow.radius * particleSize },
+  };
+}
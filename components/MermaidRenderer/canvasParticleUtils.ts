@@ -0,0 +1,327 @@
+/**
+ * Canvas particle renderer
+ *
+ * Draws particles on a canvas overlay aligned with the SVG viewBox instead of moving
+ * SVG circles. Each edge is sampled into a lookup table once, so frames don't call
+ * getPointAtLength() or touch the SVG. Exports always use SVG particles.
+ */
+
+import { DiagramModel, ParticleConfig, ParticleLoop, ParticleStyle } from './types';
+import { PARTICLE_CONFIG } from './constants';
+import {
+  createParticleTrips,
+  getParticleState,
+  getSequenceTiming,
+  readParticleSettings,
+  storeParticleSettings,
+} from './particleUtils';
+
+/**
+ * Distance between path samples in SVG user units
+ */
+const SAMPLE_SPACING = 2;
+
+/**
+ * Upper bound on samples per path, so very long edges stay cheap to sample
+ */
+const MAX_SAMPLES = 2048;
+
+/**
+ * Blur of the outer halo and glow of the core, in SVG user units (matches styles.css)
+ */
+const HALO_BLUR = 5;
+const CORE_GLOW = 6;
+
+/**
+ * Maps SVG user units onto canvas CSS pixels
+ */
+interface UserTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Pre-rendered image of one particle, drawn once per particle per frame
+ */
+interface ParticleSprite {
+  image: HTMLCanvasElement;
+  /** Half the sprite's size in SVG user units */
+  radius: number;
+}
+
+/**
+ * Samples points along a path at roughly even spacing
+ * Returns interleaved x/y coordinates
+ */
+function samplePath(path: SVGPathElement, pathLength: number): Float32Array {
+  const count = Math.min(MAX_SAMPLES, Math.max(2, Math.ceil(pathLength / SAMPLE_SPACING) + 1));
+  const samples = new Float32Array(count * 2);
+
+  for (let i = 0; i < count; i++) {
+    try {
+      const point = path.getPointAtLength((i / (count - 1)) * pathLength);
+      samples[i * 2] = point.x;
+      samples[i * 2 + 1] = point.y;
+    } catch {
+      // Path might be invalid, leave the sample at the origin
+    }
+  }
+
+  return samples;
+}
+
+/**
+ * Looks up the point at a distance along a sampled path, interpolating between samples
+ */
+function pointAtDistance(samples: Float32Array, pathLength: number, distance: number): [number, number] {
+  const last = samples.length / 2 - 1;
+  const position = pathLength > 0 ? Math.min(last, Math.max(0, (distance / pathLength) * last)) : 0;
+  const index = Math.min(last - 1, Math.floor(position));
+  const t = position - index;
+
+  return [
+    samples[index * 2] + (samples[index * 2 + 2] - samples[index * 2]) * t,
+    samples[index * 2 + 1] + (samples[index * 2 + 3] - samples[index * 2 + 1]) * t,
+  ];
+}
+
+/**
+ * Returns the viewBox-to-viewport transform for an SVG box, as preserveAspectRatio="xMidYMid meet" lays it out
+ */
+function getUserTransform(svgElement: SVGSVGElement, width: number, height: number): UserTransform {
+  const viewBox = svgElement.viewBox?.baseVal;
+  if (!viewBox || !viewBox.width || !viewBox.height) {
+    return { scale: 1, x: 0, y: 0 };
+  }
+
+  const scale = Math.min(width / viewBox.width, height / viewBox.height);
+  return {
+    scale,
+    x: (width - viewBox.width * scale) / 2 - viewBox.x * scale,
+    y: (height - viewBox.height * scale) / 2 - viewBox.y * scale,
+  };
+}
+
+/**
+ * Renders the three particle layers into an offscreen canvas at the given pixels per user unit
+ */
+function createParticleSprite(style: ParticleStyle, pixelScale: number, showHalo: boolean): ParticleSprite {
+  const radius = Math.max(
+    showHalo ? style.outerGlow.radius + HALO_BLUR : 0,
+    style.core.radius + CORE_GLOW
+  );
+  const size = Math.max(1, Math.ceil(radius * 2 * pixelScale));
+  const image = document.createElement('canvas');
+  image.width = size;
+  image.height = size;
+
+  const context = image.getContext('2d');
+  if (!context) return { image, radius };
+
+  context.setTransform(pixelScale, 0, 0, pixelScale, size / 2, size / 2);
+
+  const circle = (r: number, fill: string | CanvasGradient) => {
+    context.beginPath();
+    context.arc(0, 0, r, 0, Math.PI * 2);
+    context.fillStyle = fill;
+    context.fill();
+  };
+
+  // Soft outer halo, blurred outwards like the SVG filter
+  if (showHalo) {
+    const haloRadius = style.outerGlow.radius + HALO_BLUR;
+    const gradient = context.createRadialGradient(0, 0, 0, 0, 0, haloRadius);
+    gradient.addColorStop(0, style.outerGlow.fill);
+    gradient.addColorStop(Math.max(0, (style.outerGlow.radius - HALO_BLUR) / haloRadius), style.outerGlow.fill);
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+    circle(haloRadius, gradient);
+  }
+
+  // Main particle core with its glow (shadow blur is in pixels, not user units)
+  context.shadowColor = style.core.fill;
+  context.shadowBlur = CORE_GLOW * pixelScale;
+  circle(style.core.radius, style.core.fill);
+
+  // White center sparkle
+  context.shadowColor = 'rgba(255, 255, 255, 0.6)';
+  context.shadowBlur = 2 * pixelScale;
+  circle(style.innerGlow.radius, style.innerGlow.fill);
+
+  return { image, radius };
+}
+
+/**
+ * Starts particles along the given edges on a canvas overlay next to the SVG
+ * The loop skips frames while the diagram is off-screen or the tab is hidden.
+ * onFrame is called with a high-resolution timestamp on every frame, for frame rate measurement.
+ */
+export function startCanvasParticleAnimation(
+  svgElement: SVGSVGElement,
+  edges: ArrayLike<Element>,
+  style: ParticleStyle,
+  startTime: number = 0,
+  config: ParticleConfig = PARTICLE_CONFIG,
+  model: DiagramModel | null = null,
+  onFrame?: (time: number) => void
+): ParticleLoop {
+  storeParticleSettings(svgElement, { config, model, style });
+
+  const trips = createParticleTrips(edges, startTime, config, model);
+  const host = svgElement.parentElement;
+  if (trips.length === 0 || !host) {
+    return { stop: () => {}, pause: () => {}, resume: () => {}, particleCount: 0 };
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.className = 'particle-canvas';
+  canvas.setAttribute('aria-hidden', 'true');
+  svgElement.after(canvas);
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    canvas.remove();
+    return { stop: () => {}, pause: () => {}, resume: () => {}, particleCount: 0 };
+  }
+
+  // Sample each edge once, shared by every particle on it
+  const samples = new Map<SVGPathElement, Float32Array>();
+  trips.forEach((trip) => {
+    if (!samples.has(trip.path)) {
+      samples.set(trip.path, samplePath(trip.path, trip.pathLength));
+    }
+  });
+
+  const timing = getSequenceTiming(trips);
+  let transform: UserTransform = { scale: 1, x: 0, y: 0 };
+  let pixelRatio = 1;
+  let sprite: ParticleSprite | null = null;
+  let spriteStyle: ParticleStyle | null = null;
+
+  /**
+   * Covers the SVG's layout box with the canvas, ignoring any zoom transform on the host
+   */
+  const layout = () => {
+    const hostRect = host.getBoundingClientRect();
+    const svgRect = svgElement.getBoundingClientRect();
+    const zoom = host.offsetWidth ? hostRect.width / host.offsetWidth : 1;
+    const width = svgRect.width / zoom;
+    const height = svgRect.height / zoom;
+
+    pixelRatio = window.devicePixelRatio || 1;
+    canvas.style.left = `${(svgRect.left - hostRect.left) / zoom}px`;
+    canvas.style.top = `${(svgRect.top - hostRect.top) / zoom}px`;
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
+    canvas.width = Math.max(1, Math.round(width * pixelRatio));
+    canvas.height = Math.max(1, Math.round(height * pixelRatio));
+    transform = getUserTransform(svgElement, width, height);
+    sprite = null;
+  };
+
+  const draw = (currentTime: number) => {
+    // Restyled particles (e.g. a color scheme switch) are picked up from the stored settings
+    const currentStyle = readParticleSettings(svgElement).style;
+    if (!sprite || currentStyle !== spriteStyle) {
+      sprite = createParticleSprite(currentStyle, transform.scale * pixelRatio, !svgElement.closest('.no-particle-halo'));
+      spriteStyle = currentStyle;
+    }
+
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    context.globalAlpha = 1;
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    if (timing.totalSequenceDuration <= 0) return;
+
+    context.setTransform(
+      transform.scale * pixelRatio, 0,
+      0, transform.scale * pixelRatio,
+      transform.x * pixelRatio, transform.y * pixelRatio
+    );
+
+    const { image, radius } = sprite;
+    trips.forEach((trip) => {
+      const state = getParticleState(trip, currentTime, timing.totalSequenceDuration, timing.sequenceStartTime);
+      if (!state || state.opacity <= 0) return;
+
+      const [x, y] = pointAtDistance(samples.get(trip.path)!, trip.pathLength, state.distance);
+      context.globalAlpha = state.opacity;
+      context.drawImage(image, x - radius, y - radius, radius * 2, radius * 2);
+    });
+  };
+
+  let animationFrameId: number | undefined;
+  let stopped = false;
+  let isVisible = true;
+
+  // Time spent paused is subtracted so particles resume where they stopped
+  let pausedAt: number | null = null;
+  let pausedTotal = 0;
+
+  const animate = () => {
+    draw(Date.now() - pausedTotal);
+    onFrame?.(performance.now());
+    animationFrameId = requestAnimationFrame(animate);
+  };
+
+  const cancel = () => {
+    if (animationFrameId) {
+      cancelAnimationFrame(animationFrameId);
+      animationFrameId = undefined;
+    }
+  };
+
+  // Runs the loop only while it's wanted and can be seen
+  const update = () => {
+    const shouldRun = !stopped && pausedAt === null && isVisible && !document.hidden;
+    if (shouldRun && animationFrameId === undefined) {
+      animate();
+    } else if (!shouldRun) {
+      cancel();
+    }
+  };
+
+  const resizeObserver = typeof ResizeObserver === 'function'
+    ? new ResizeObserver(() => {
+      layout();
+      // Paused particles are redrawn where they stopped
+      if (animationFrameId === undefined) draw((pausedAt ?? Date.now()) - pausedTotal);
+    })
+    : null;
+  resizeObserver?.observe(svgElement);
+
+  const intersectionObserver = typeof IntersectionObserver === 'function'
+    ? new IntersectionObserver((entries) => {
+      isVisible = entries[entries.length - 1].isIntersecting;
+      update();
+    })
+    : null;
+  intersectionObserver?.observe(svgElement);
+
+  document.addEventListener('visibilitychange', update);
+
+  layout();
+  update();
+
+  return {
+    particleCount: trips.length,
+    stop: () => {
+      stopped = true;
+      cancel();
+      resizeObserver?.disconnect();
+      intersectionObserver?.disconnect();
+      document.removeEventListener('visibilitychange', update);
+      canvas.remove();
+    },
+    pause: () => {
+      if (pausedAt !== null) return;
+      pausedAt = Date.now();
+      update();
+    },
+    resume: () => {
+      if (pausedAt === null) return;
+      pausedTotal += Date.now() - pausedAt;
+      pausedAt = null;
+      update();
+    },
+  };
+}
@@ -2,7 +2,19 @@
  * Configuration constants for the Mermaid Renderer
  */
 
-import { MermaidConfig, ParticleConfig, ParticleStyle } from './types';
+import {
+  ExportConfig,
+  ImageConfig,
+  InteractionConfig,
+  MermaidConfig,
+  NodeStatus,
+  ParticleConfig,
+  ParticleStyle,
+  PerformanceConfig,
+  TooltipConfig,
+  TransitionConfig,
+  ZoomConfig,
+} from './types';
 import { PRIMARY, ACCENT, BACKGROUND, TEXT, hexToRgba } from './theme';
 
 /**
@@ -10,6 +22,8 @@ import { PRIMARY, ACCENT, BACKGROUND, TEXT, hexToRgba } from './theme';
  */
 export const MERMAID_CONFIG: MermaidConfig = {
   startOnLoad: false,
+  // Errors are surfaced through onError and the error panel instead of Mermaid's bomb SVG
+  suppressErrorRendering: true,
   theme: 'base',
   themeVariables: {
     primaryColor: PRIMARY.teal,
@@ -56,10 +70,15 @@ export const MERMAID_CONFIG: MermaidConfig = {
  * Particles now run sequentially through edges
  */
 export const PARTICLE_CONFIG: ParticleConfig = {
+  mode: 'sequential',
+  renderer: 'svg',
   particleCount: 1,
   minDuration: 2000,
   maxDuration: 3500,
   durationMultiplier: 15,
+  easing: 'ease-in-out',
+  fadeIn: 0.15,
+  fadeOut: 0.15,
 };
 
 /**
@@ -83,6 +102,103 @@ export const PARTICLE_STYLE: ParticleStyle = {
   },
 };
 
+/**
+ * Frame rate measurement and adaptive quality thresholds
+ */
+export const PERFORMANCE_CONFIG: PerformanceConfig = {
+  minFps: 30,
+  sampleWindow: 1000,
+  slowSamples: 2,
+  maxFrameGap: 1000,
+};
+
+/**
+ * Morph transition between renders
+ * Removed elements fade out over the first part, added ones fade in over the last part
+ */
+export const TRANSITION_CONFIG: TransitionConfig = {
+  duration: 600,
+  easing: 'ease-in-out',
+  fadeOutEnd: 0.6,
+  fadeInStart: 0.4,
+};
+
+/**
+ * Class of the group holding copies of the previous render while they fade out
+ */
+export const MORPH_EXITING_CLASS = 'morph-exiting';
+
+/**
+ * Long-press and lasso gesture thresholds
+ */
+export const INTERACTION_CONFIG: InteractionConfig = {
+  longPressDelay: 500,
+  longPressTolerance: 10,
+  lassoThreshold: 4,
+};
+
+/**
+ * Default image size, shape and position, and the spacing around images in nodes
+ */
+export const IMAGE_CONFIG: ImageConfig = {
+  size: 48,
+  shape: 'rounded',
+  position: 'left',
+  gap: 4,
+  inset: 8,
+  borderRadius: 8,
+};
+
+/**
+ * Legend labels of the node statuses, in legend order
+ */
+export const NODE_STATUS_LABELS: Record<NodeStatus, string> = {
+  running: 'Running',
+  failed: 'Failed',
+  pending: 'Pending',
+  success: 'Succeeded',
+};
+
+/**
+ * Default tooltip timing and placement
+ */
+export const TOOLTIP_CONFIG: TooltipConfig = {
+  showDelay: 300,
+  hideDelay: 150,
+  offset: 8,
+  margin: 8,
+};
+
+/**
+ * Default pan and zoom behavior
+ */
+export const ZOOM_CONFIG: ZoomConfig = {
+  minScale: 0.2,
+  maxScale: 8,
+  step: 1.25,
+  wheelSensitivity: 0.0015,
+  fitPadding: 24,
+  focusFraction: 0.4,
+  transitionMs: 250,
+};
+
+/**
+ * Default export settings
+ */
+export const EXPORT_CONFIG: ExportConfig = {
+  scale: 2,
+  padding: 100,
+  quality: 0.92,
+  baseDpi: 96,
+  fallbackBackground: BACKGROUND.primary,
+  pdfMargin: 36,
+  pdfTitleSize: 16,
+  pdfFooterSize: 9,
+  pdfTextColor: TEXT.body,
+  animationFps: 20,
+  animationScale: 1,
+};
+
 /**
  * CSS class names used by Mermaid for different diagram elements
  */
@@ -105,6 +221,10 @@ export const MERMAID_SELECTORS = {
   edgeLabels: '.edgeLabel',
   edgeLabelRects: '.edgeLabel rect',
 
+  // Elements that take click, hover and keyboard interactions
+  interactiveNodes: '.node, .actor, .stateGroup, .classGroup',
+  interactiveEdges: '.flowchart-link, .messageLine0, .messageLine1, .edgePath path, path.edge',
+
   // Marker selectors
   markers: 'marker',
 };
@@ -119,6 +239,72 @@ export const EDGE_LABEL_MIN_SIZE = {
 };
 
 /**
- * Unique ID for the rendered Mermaid diagram
+ * CSS custom properties consumed by styles.css
+ * Defaults live on `.mermaid-container`; resolved themes override them inline
+ */
+export const THEME_CSS_VARIABLES = {
+  primary: '--mv-primary',
+  secondary: '--mv-secondary',
+  text: '--mv-text',
+  background: '--mv-background',
+  ambient: '--mv-ambient',
+  surface: '--mv-surface',
+  surfaceSolid: '--mv-surface-solid',
+  surfaceHover: '--mv-surface-hover',
+  clusterFill: '--mv-cluster-fill',
+  tint: '--mv-tint',
+  tintStrong: '--mv-tint-strong',
+  glowSoft: '--mv-glow-soft',
+  glow: '--mv-glow',
+  glowStrong: '--mv-glow-strong',
+  particleGlow: '--mv-particle-glow',
+  particleGlowSoft: '--mv-particle-glow-soft',
+  statusRunning: '--mv-status-running',
+  statusSuccess: '--mv-status-success',
+  statusPending: '--mv-status-pending',
+  statusFailed: '--mv-status-failed',
+  statusFailedGlow: '--mv-status-failed-glow',
+  nodeStrokeWidth: '--mv-node-stroke-width',
+  edgeStrokeWidth: '--mv-edge-stroke-width',
+  messageStrokeWidth: '--mv-message-stroke-width',
+  nodeFontSize: '--mv-node-font-size',
+  edgeFontSize: '--mv-edge-font-size',
+  actorFontSize: '--mv-actor-font-size',
+  messageFontSize: '--mv-message-font-size',
+} as const;
+
+/**
+ * CSS custom properties for animation timings and particle size
+ * styles.css falls back to the ANIMATION defaults when they aren't set
+ */
+export const ANIMATION_CSS_VARIABLES = {
+  nodeGlowDuration: '--mv-node-glow-duration',
+  edgePulseDuration: '--mv-edge-pulse-duration',
+  markerPulseDuration: '--mv-marker-pulse-duration',
+  particleSize: '--mv-particle-size',
+} as const;
+
+/**
+ * Desktop values of the size variables declared on .mermaid-container in styles.css,
+ * for SVGs rendered outside the container
+ */
+export const THEME_SIZE_DEFAULTS: Record<string, string> = {
+  [THEME_CSS_VARIABLES.nodeStrokeWidth]: '3',
+  [THEME_CSS_VARIABLES.edgeStrokeWidth]: '4',
+  [THEME_CSS_VARIABLES.messageStrokeWidth]: '5',
+  [THEME_CSS_VARIABLES.nodeFontSize]: '18px',
+  [THEME_CSS_VARIABLES.edgeFontSize]: '17px',
+  [THEME_CSS_VARIABLES.actorFontSize]: '22px',
+  [THEME_CSS_VARIABLES.messageFontSize]: '20px',
+};
+
+/**
+ * Prefix for rendered Mermaid diagram IDs
+ * Each component instance appends its own unique suffix
+ */
+export const DIAGRAM_ID_PREFIX = 'mermaid-diagram';
+
+/**
+ * Default delay in milliseconds between the last edit and the editor's re-render
  */
-export const DIAGRAM_ID = 'mermaid-diagram';
+export const EDITOR_DEBOUNCE = 300;
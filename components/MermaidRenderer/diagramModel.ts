@@ -0,0 +1,239 @@
+/**
+ * Stable node and edge identities
+ *
+ * Reads node ids, edges and their source lines from Mermaid's parser, then stamps them
+ * onto the rendered SVG as `data-node-id` / `data-edge-id` so events can report them.
+ */
+
+import { DiagramEdge, DiagramModel, DiagramNode } from './types';
+import { escapeRegExp } from './svgUtils';
+
+/**
+ * Parts of Mermaid's diagram databases that identities are read from
+ * Flowchart, class, state, ER and mindmap share getData(); sequence diagrams have their own API.
+ */
+interface DiagramDb {
+  getData?: () => {
+    nodes: Array<{ id: string; domId?: string; label?: string; tooltip?: string }>;
+    edges: Array<{ id: string; start?: string; end?: string; label?: string }>;
+  };
+  getActors?: () => Map<string, { name: string; description?: string }>;
+  getMessages?: () => Array<{ from?: string; to?: string; type?: number; message?: string }>;
+  getEntities?: () => Map<string, { id: string }>;
+}
+
+/**
+ * Mermaid's LINETYPE.NOTE; notes are stored with messages but have no arrow
+ */
+const SEQUENCE_NOTE = 2;
+
+/**
+ * Arrow operators of sequence diagram messages
+ */
+const SEQUENCE_ARROW = /<<-{1,2}>>|-{1,2}(?:>>|>|x|\))/;
+
+/**
+ * Returns the text Mermaid would have matched for a node id in the source
+ * State diagram start/end pseudo-states are written as [*]
+ */
+function sourceToken(id: string, type: string): string {
+  return type.startsWith('state') && /(?:^|_)(?:start|end)$/.test(id) ? '[*]' : id;
+}
+
+/**
+ * Matches a node id as a whole token (so `A` doesn't match inside `AB`)
+ */
+function tokenPattern(token: string): RegExp {
+  return new RegExp(`(?<!\\w)${escapeRegExp(token)}(?!\\w)`);
+}
+
+/**
+ * Returns the numbered lines after the diagram header, skipping comments and frontmatter
+ */
+function getBodyLines(source: string): Array<{ text: string; line: number }> {
+  const lines = source.split('\n');
+  let index = 0;
+
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((text, i) => i > 0 && text.trim() === '---');
+    index = end + 1;
+  }
+
+  // Skip blank lines, comments and directives up to and including the diagram header
+  while (index < lines.length && (!lines[index].trim() || lines[index].trim().startsWith('%%'))) {
+    index++;
+  }
+  index++;
+
+  return lines
+    .map((text, i) => ({ text, line: i + 1 }))
+    .slice(index)
+    .filter(({ text }) => !text.trim().startsWith('%%'));
+}
+
+/**
+ * Assigns source lines: a node's first mention, and the nth line joining an edge's endpoints
+ * for its nth occurrence
+ */
+function assignLines(model: DiagramModel, source: string): void {
+  const lines = getBodyLines(source);
+  const isSequence = model.type === 'sequence';
+
+  model.nodes.forEach((node) => {
+    const token = sourceToken(node.id, model.type);
+    // A start state is the [*] a transition leaves, an end state the one it enters
+    const pattern = token !== node.id
+      ? (node.id.endsWith('start') ? /\[\*\]\s*-->/ : /-->\s*\[\*\]/)
+      : tokenPattern(token);
+    node.line = lines.find(({ text }) => pattern.test(text))?.line;
+  });
+
+  const occurrences = new Map<string, number>();
+  model.edges.forEach((edge) => {
+    const key = `${edge.from}\u0000${edge.to}`;
+    const occurrence = occurrences.get(key) ?? 0;
+    occurrences.set(key, occurrence + 1);
+
+    const from = tokenPattern(sourceToken(edge.from, model.type));
+    const to = tokenPattern(sourceToken(edge.to, model.type));
+    const candidates = lines.filter(({ text }) =>
+      from.test(text) && to.test(text) && (!isSequence || SEQUENCE_ARROW.test(text))
+    );
+
+    // Prefer lines written source-first, so A->B and B->A on different lines aren't confused
+    const ordered = candidates.filter(({ text }) => text.search(from) <= text.search(to));
+    edge.line = (ordered[occurrence] ?? candidates[occurrence])?.line;
+  });
+}
+
+/**
+ * Builds the node and edge model of a parsed diagram
+ * `source` must be the chart text that was parsed, so line numbers line up
+ */
+export function buildDiagramModel(type: string, db: unknown, source: string): DiagramModel {
+  const diagramDb = db as DiagramDb;
+  const model: DiagramModel = { type, nodes: new Map(), edges: new Map() };
+
+  if (diagramDb.getActors && diagramDb.getMessages) {
+    diagramDb.getActors().forEach((actor) => {
+      model.nodes.set(actor.name, { id: actor.name, label: actor.description || actor.name });
+    });
+
+    diagramDb
+      .getMessages()
+      .filter((message) => message.from && message.to && message.type !== SEQUENCE_NOTE)
+      .forEach((message, index) => {
+        const id = `message-${index}`;
+        model.edges.set(id, { id, from: message.from!, to: message.to!, label: message.message || undefined });
+      });
+  } else if (diagramDb.getData) {
+    const { nodes, edges } = diagramDb.getData();
+
+    // ER entities are keyed by generated ids; the source uses the entity name
+    const entityNames = new Map<string, string>();
+    diagramDb.getEntities?.().forEach((entity, name) => entityNames.set(entity.id, name));
+    const toSourceId = (id: string) => entityNames.get(id) ?? id;
+
+    nodes.forEach((node) => {
+      const id = toSourceId(node.id);
+      const entry: DiagramNode = { id, label: node.label || undefined, elementId: node.domId ?? node.id };
+      if (node.tooltip) entry.tooltip = node.tooltip;
+      model.nodes.set(id, entry);
+    });
+
+    edges.forEach((edge) => {
+      if (!edge.start || !edge.end) return;
+      const entry: DiagramEdge = {
+        id: edge.id,
+        from: toSourceId(edge.start),
+        to: toSourceId(edge.end),
+        label: edge.label || undefined,
+      };
+      model.edges.set(edge.id, entry);
+    });
+  }
+
+  assignLines(model, source);
+  return model;
+}
+
+/**
+ * Stamps node and edge ids from the model onto the rendered SVG
+ */
+export function annotateDiagram(svgElement: SVGSVGElement, model: DiagramModel, diagramId: string): void {
+  // Rendered IDs are scoped with the diagram ID (see scopeSvgIds), and node IDs end in a
+  // counter that isn't reset between parses for every diagram type, so both are ignored
+  const scope = new RegExp(`^${escapeRegExp(diagramId)}[-_]`);
+  const withoutCounter = (id: string) => id.replace(/-\d+$/, '');
+  const elementsById = new Map<string, Element>();
+  svgElement.querySelectorAll('[id]').forEach((element) => {
+    elementsById.set(withoutCounter(element.id.replace(scope, '')), element);
+  });
+
+  model.nodes.forEach((node) => {
+    if (node.elementId) {
+      elementsById.get(withoutCounter(node.elementId))?.setAttribute('data-node-id', node.id);
+    }
+  });
+
+  // Edge paths and their label wrappers carry Mermaid's edge id in data-id
+  svgElement.querySelectorAll('[data-id]').forEach((element) => {
+    const edgeId = element.getAttribute('data-id')!;
+    if (!model.edges.has(edgeId)) return;
+    const target = element.classList.contains('label') ? element.closest('.edgeLabel') ?? element : element;
+    target.setAttribute('data-edge-id', edgeId);
+  });
+
+  if (model.type !== 'sequence') return;
+
+  // Actor boxes, icons and lifelines carry the participant name
+  svgElement.querySelectorAll('[name]').forEach((element) => {
+    const name = element.getAttribute('name')!;
+    if (!model.nodes.has(name)) return;
+    element.setAttribute('data-node-id', name);
+
+    // Mark the wrapping group too, so clicks on the actor's text resolve
+    const parent = element.parentElement;
+    const names = parent ? Array.from(parent.querySelectorAll('[name]'), (child) => child.getAttribute('name')) : [];
+    if (parent && parent !== (svgElement as Element) && names.every((other) => other === name)) {
+      parent.setAttribute('data-node-id', name);
+    }
+  });
+
+  // Messages are drawn in source order, one line and one text per message
+  const messageIds = Array.from(model.edges.keys());
+  const messageLines = svgElement.querySelectorAll('.messageLine0, .messageLine1');
+  const messageTexts = svgElement.querySelectorAll('.messageText');
+  if (messageLines.length === messageIds.length) {
+    messageLines.forEach((line, index) => line.setAttribute('data-edge-id', messageIds[index]));
+  }
+  if (messageTexts.length === messageIds.length) {
+    messageTexts.forEach((text, index) => text.setAttribute('data-edge-id', messageIds[index]));
+  }
+}
+
+/**
+ * Returns the node a rendered element belongs to, if it could be identified
+ */
+export function getNodeForElement(element: Element, model: DiagramModel | null): DiagramNode | undefined {
+  const nodeId = element.closest('[data-node-id]')?.getAttribute('data-node-id');
+  return nodeId ? model?.nodes.get(nodeId) : undefined;
+}
+
+/**
+ * Returns the edge a rendered path or label belongs to, if it could be identified
+ */
+export function getEdgeForElement(element: Element, model: DiagramModel | null): DiagramEdge | undefined {
+  const edgeId = element.closest('[data-edge-id]')?.getAttribute('data-edge-id');
+  return edgeId ? model?.edges.get(edgeId) : undefined;
+}
+
+/**
+ * Finds the rendered path of an edge by id
+ */
+export function findEdgePathElement(svgElement: SVGSVGElement, edgeId: string): SVGPathElement | null {
+  const element = Array.from(svgElement.querySelectorAll('path[data-edge-id], line[data-edge-id]')).find(
+    (candidate) => candidate.getAttribute('data-edge-id') === edgeId
+  );
+  return (element as SVGPathElement) ?? null;
+}
@@ -0,0 +1,104 @@
+/**
+ * Syntax highlighting and validation for the MermaidVibesEditor
+ */
+
+import { EditorDiagnostic, EditorToken, EditorTokenType } from './types';
+import { parseDiagram, preprocessChart } from './renderUtils';
+import { getErrorLocation, toError } from './errorUtils';
+
+/**
+ * Diagram headers and statement keywords highlighted in the editor
+ */
+const KEYWORDS = new Set([
+  // Diagram headers
+  'graph', 'flowchart', 'sequenceDiagram', 'classDiagram', 'classDiagram-v2', 'stateDiagram', 'stateDiagram-v2',
+  'erDiagram', 'gantt', 'pie', 'mindmap', 'journey', 'gitGraph', 'timeline', 'quadrantChart', 'requirementDiagram',
+  'C4Context', 'sankey-beta', 'xychart-beta', 'block-beta', 'packet-beta', 'architecture-beta', 'kanban',
+  // Directions
+  'TB', 'TD', 'BT', 'RL', 'LR',
+  // Statements
+  'subgraph', 'end', 'direction', 'participant', 'actor', 'as', 'autonumber', 'activate', 'deactivate',
+  'note', 'Note', 'over', 'loop', 'alt', 'else', 'opt', 'par', 'and', 'critical', 'break', 'rect', 'box',
+  'create', 'destroy', 'class', 'classDef', 'style', 'linkStyle', 'click', 'call', 'href', 'state',
+  'namespace', 'section', 'title', 'accTitle', 'accDescr', 'dateFormat', 'axisFormat', 'excludes',
+  'todayMarker', 'showData', 'commit', 'branch', 'checkout', 'merge',
+]);
+
+/**
+ * Token patterns, tried in order at each position of a line
+ * Words are checked against KEYWORDS; anything unmatched is plain text
+ */
+const TOKEN_PATTERNS: Array<[EditorTokenType | 'word', RegExp]> = [
+  ['comment', /%%.*/y],
+  ['string', /"[^"]*"?/y],
+  // The `img:<url>` and `icon:<set>-<name>` extension, URLs optionally quoted (see readImageToken)
+  ['image', /(?:img|icon):(?:"[^"]*"?(?:\{[^}]*\}?)?|[^\s\])"]+)/y],
+  ['label', /\|[^|\n]+\|/y],
+  ['arrow', /<<-{1,2}>>|<?\|?(?:-{2,}|={2,}|-\.+-|\.{2,})[-.=]*\|?(?:>>|>|x|o|\))?|-(?:>>|>|x|\))/y],
+  ['keyword', /(?:left|right) of\b/y],
+  ['word', /[A-Za-z_]\w*(?:-(?:v2|beta))?/y],
+];
+
+/**
+ * Splits one line of chart source into highlighted tokens
+ */
+export function tokenizeLine(line: string): EditorToken[] {
+  const tokens: EditorToken[] = [];
+  const push = (type: EditorTokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type && type === 'text') {
+      last.text += text;
+    } else {
+      tokens.push({ type, text });
+    }
+  };
+
+  let index = 0;
+  while (index < line.length) {
+    let matched = false;
+
+    for (const [type, pattern] of TOKEN_PATTERNS) {
+      pattern.lastIndex = index;
+      const match = pattern.exec(line);
+      if (!match || !match[0]) continue;
+
+      const text = match[0];
+      push(type === 'word' ? (KEYWORDS.has(text) ? 'keyword' : 'text') : type, text);
+      index += text.length;
+      matched = true;
+      break;
+    }
+
+    if (!matched) {
+      push('text', line[index]);
+      index++;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Splits chart source into lines of highlighted tokens
+ */
+export function highlightChart(chart: string): EditorToken[][] {
+  return chart.replace(/\r\n?/g, '\n').split('\n').map(tokenizeLine);
+}
+
+/**
+ * Parses a chart and returns the parser's diagnostic, the first image declaration warning,
+ * or null if it is valid. Lines and columns refer to the original source, front matter and comments included
+ */
+export async function validateChart(chart: string): Promise<EditorDiagnostic | null> {
+  try {
+    const [warning] = await parseDiagram(chart);
+    return warning ?? null;
+  } catch (error) {
+    // Malformed image declarations are left as written, and explain the parse error on their line best
+    const location = getErrorLocation(error, chart);
+    const imageProblem = preprocessChart(chart).diagnostics.find(({ line }) => line === location.line);
+    return imageProblem
+      ? { ...imageProblem, severity: 'error' }
+      : { message: toError(error).message, ...location };
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Utilities for turning Mermaid rendering failures into readable diagnostics
+ */
+
+import { RenderErrorInfo } from './types';
+
+/**
+ * Shape of the `hash` object attached to errors thrown by Mermaid's jison parsers
+ */
+interface ParserErrorHash {
+  line?: number;
+  loc?: {
+    first_line: number;
+    first_column: number;
+  };
+}
+
+/**
+ * Normalizes anything thrown during rendering into an Error instance
+ */
+export function toError(error: unknown): Error {
+  if (error instanceof Error) {
+    return error;
+  }
+
+  if (typeof error === 'string') {
+    return new Error(error);
+  }
+
+  const message = (error as { message?: unknown })?.message;
+  return new Error(typeof message === 'string' ? message : 'Failed to render diagram');
+}
+
+/**
+ * Returns true for lines Mermaid strips before parsing (comments, but not %%{init}%% directives)
+ */
+function isCommentLine(line: string): boolean {
+  return /^\s*%%(?!\{)/.test(line);
+}
+
+/**
+ * Maps line numbers reported by Mermaid back onto the original chart source.
+ * Mermaid removes front matter, comment lines and leading blank lines before
+ * parsing, so its line numbers are relative to the cleaned text.
+ */
+function mapToSourceLine(chart: string, parsedLine: number): number {
+  const lines = chart.replace(/\r\n?/g, '\n').split('\n');
+  let index = 0;
+
+  // Skip YAML front matter (--- ... ---)
+  if (lines[0]?.trim() === '---') {
+    const closing = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
+    if (closing > 0) {
+      index = closing + 1;
+    }
+  }
+
+  // Collect the lines that survive Mermaid's cleanup
+  const keptLines: number[] = [];
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+    if (isCommentLine(line)) continue;
+
+    // Leading blank lines (and directive-only lines) are trimmed away
+    const isBlank = line.replace(/%%\{.*\}%%/g, '').trim() === '';
+    if (keptLines.length === 0 && isBlank) continue;
+
+    keptLines.push(index + 1);
+  }
+
+  return keptLines[parsedLine - 1] ?? parsedLine;
+}
+
+/**
+ * Extracts the failing line and column from a Mermaid parse error
+ */
+export function getErrorLocation(error: unknown, chart: string): Pick<RenderErrorInfo, 'line' | 'column'> {
+  const hash = (error as { hash?: ParserErrorHash })?.hash;
+  let line: number | undefined;
+  let column: number | undefined;
+
+  if (hash?.loc) {
+    line = hash.loc.first_line;
+    column = hash.loc.first_column + 1;
+  } else if (typeof hash?.line === 'number') {
+    line = hash.line + 1;
+  } else {
+    // Langium-based parsers only report the location in the message
+    const match = toError(error).message.match(/line (\d+)(?:,? column (\d+))?/i);
+    if (match) {
+      line = parseInt(match[1], 10);
+      column = match[2] ? parseInt(match[2], 10) : undefined;
+    }
+  }
+
+  if (line === undefined) {
+    return {};
+  }
+
+  return { line: mapToSourceLine(chart, line), column };
+}
+
+/**
+ * Builds the error details passed to onError and renderError
+ */
+export function createRenderErrorInfo(error: unknown, chart: string): RenderErrorInfo {
+  return { ...getErrorLocation(error, chart), chart };
+}
+
+/**
+ * Returns the text of a 1-based line in the chart source
+ */
+export function getSourceLine(chart: string, line: number): string | undefined {
+  return chart.replace(/\r\n?/g, '\n').split('\n')[line - 1];
+}
@@ -2,15 +2,85 @@
  * Export utilities for saving Mermaid diagrams as image files
  */
 
+import { AnimationExportOptions, ExportBackground, ExportFormat, ExportOptions, PdfExportOptions } from './types';
+import { EXPORT_CONFIG, THEME_CSS_VARIABLES } from './constants';
+import { createParticleLayer, findEdgePaths } from './svgUtils';
+import {
+  createParticleTimeline,
+  getSequenceTiming,
+  readParticleSettings,
+  readParticleStyle,
+  renderParticleFrame,
+} from './particleUtils';
+import { filterFocusedEdges } from './focusUtils';
+
+/**
+ * MIME types produced for each export format
+ */
+const MIME_TYPES: Record<ExportFormat, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  svg: 'image/svg+xml',
+};
+
+/**
+ * Class marking the off-screen clone used to render animation frames
+ */
+const EXPORT_FRAME_CLASS = 'mermaid-export-frame';
+
+/**
+ * Renders an SVG element in the given format and returns the result as a Blob
+ */
+export async function toBlob(
+  svgElement: SVGSVGElement,
+  format: ExportFormat,
+  options: ExportOptions = {}
+): Promise<Blob> {
+  if (format === 'svg') {
+    const svgClone = await prepareSvgClone(svgElement, options.padding ?? EXPORT_CONFIG.padding);
+    if (options.background) {
+      svgClone.style.background = resolveCssBackground(svgElement, options.background);
+    }
+    const svgString = new XMLSerializer().serializeToString(svgClone);
+    return new Blob([svgString], { type: MIME_TYPES.svg });
+  }
+
+  const canvas = await svgToCanvas(svgElement, format, options);
+  return canvasToBlob(canvas, MIME_TYPES[format], options.quality ?? EXPORT_CONFIG.quality);
+}
+
+/**
+ * Renders an SVG element in the given format and returns the result as a data URL
+ */
+export async function toDataURL(
+  svgElement: SVGSVGElement,
+  format: ExportFormat,
+  options: ExportOptions = {}
+): Promise<string> {
+  return blobToDataUri(await toBlob(svgElement, format, options));
+}
+
+/**
+ * Exports an SVG element in the given format and downloads it
+ */
+export async function exportAs(
+  svgElement: SVGSVGElement,
+  format: ExportFormat,
+  options: ExportOptions = {}
+): Promise<void> {
+  const blob = await toBlob(svgElement, format, options);
+  downloadBlob(blob, options.filename ?? `diagram.${format}`);
+}
+
 /**
  * Exports an SVG element as a PNG file
  */
 export async function exportAsPNG(
   svgElement: SVGSVGElement,
-  filename: string = 'diagram.png'
+  filename: string = 'diagram.png',
+  options: ExportOptions = {}
 ): Promise<void> {
-  const canvas = await svgToCanvas(svgElement);
-  downloadCanvas(canvas, filename, 'image/png');
+  return exportAs(svgElement, 'png', { ...options, filename });
 }
 
 /**
@@ -18,10 +88,10 @@ export async function exportAsPNG(
  */
 export async function exportAsJPG(
   svgElement: SVGSVGElement,
-  filename: string = 'diagram.jpg'
+  filename: string = 'diagram.jpg',
+  options: ExportOptions = {}
 ): Promise<void> {
-  const canvas = await svgToCanvas(svgElement, '#FFFFFF'); // White background for JPG
-  downloadCanvas(canvas, filename, 'image/jpeg');
+  return exportAs(svgElement, 'jpg', { ...options, filename });
 }
 
 /**
@@ -29,31 +99,143 @@ export async function exportAsJPG(
  */
 export async function exportAsSVG(
   svgElement: SVGSVGElement,
-  filename: string = 'diagram.svg'
+  filename: string = 'diagram.svg',
+  options: ExportOptions = {}
 ): Promise<void> {
-  // Clone the SVG with inlined styles (now async to handle images)
-  const svgClone = await inlineStyles(svgElement);
+  return exportAs(svgElement, 'svg', { ...options, filename });
+}
 
-  // Add xmlns if not present
-  if (!svgClone.getAttribute('xmlns')) {
-    svgClone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+/**
+ * Exports an SVG element as a vector PDF
+ * Requires the optional `jspdf` and `svg2pdf.js` packages; nothing is fetched at runtime
+ */
+export async function exportAsPDF(
+  svgElement: SVGSVGElement,
+  options: PdfExportOptions = {}
+): Promise<void> {
+  const [{ jsPDF }, { svg2pdf }] = await Promise.all([import('jspdf'), import('svg2pdf.js')]).catch(() => {
+    throw new Error('exportAsPDF requires the "jspdf" and "svg2pdf.js" packages to be installed');
+  });
+
+  const { width, height } = getSvgSize(svgElement);
+  const margin = options.margin ?? EXPORT_CONFIG.pdfMargin;
+  const orientation = options.orientation && options.orientation !== 'auto'
+    ? options.orientation
+    : width > height ? 'landscape' : 'portrait';
+
+  const pdf = new jsPDF({ unit: 'pt', format: options.pageSize ?? 'a4', orientation });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const textColor = resolvePdfTextColor(svgElement);
+
+  // Reserve room for the title and footer, then fit the diagram into what's left
+  let top = margin;
+  let bottom = pageHeight - margin;
+
+  if (options.title) {
+    pdf.setProperties({ title: options.title });
+    pdf.setFontSize(EXPORT_CONFIG.pdfTitleSize);
+    pdf.setTextColor(textColor);
+    pdf.text(options.title, pageWidth / 2, top + EXPORT_CONFIG.pdfTitleSize, { align: 'center' });
+    top += EXPORT_CONFIG.pdfTitleSize * 2;
   }
 
-  // Serialize the SVG
-  const serializer = new XMLSerializer();
-  const svgString = serializer.serializeToString(svgClone);
+  if (options.footer) {
+    pdf.setFontSize(EXPORT_CONFIG.pdfFooterSize);
+    pdf.setTextColor(textColor);
+    pdf.text(options.footer, pageWidth / 2, bottom, { align: 'center' });
+    bottom -= EXPORT_CONFIG.pdfFooterSize * 2;
+  }
 
-  // Create blob and download
-  const blob = new Blob([svgString], { type: 'image/svg+xml' });
-  const url = URL.createObjectURL(blob);
+  const availableWidth = pageWidth - margin * 2;
+  const availableHeight = bottom - top;
+  const scale = Math.min(availableWidth / width, availableHeight / height);
+  if (!(scale > 0)) {
+    throw new Error('PDF margins leave no room for the diagram');
+  }
 
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = filename;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
+  const svgClone = await prepareSvgForPdf(svgElement);
+  await svg2pdf(svgClone, pdf, {
+    x: margin + (availableWidth - width * scale) / 2,
+    y: top + (availableHeight - height * scale) / 2,
+    width: width * scale,
+    height: height * scale,
+    loadExternalStyleSheets: false,
+  });
+
+  downloadBlob(pdf.output('blob'), options.filename ?? 'diagram.pdf');
+}
+
+/**
+ * Exports the particle animation as a looping GIF or WebM clip
+ * The particle timeline is stepped frame by frame, so the result doesn't depend on rendering speed
+ */
+export async function exportAsAnimation(
+  svgElement: SVGSVGElement,
+  options: AnimationExportOptions = {}
+): Promise<void> {
+  const format = options.format ?? 'gif';
+  const fps = options.fps ?? EXPORT_CONFIG.animationFps;
+  const frameDelay = 1000 / fps;
+  const target = createRasterTarget(svgElement, options, EXPORT_CONFIG.animationScale, 'container', false);
+
+  // Rebuild the particles on a clone so the live animation keeps running untouched
+  const svgClone = await prepareSvgClone(svgElement, 0);
+  svgClone.querySelectorAll('.particle-layer').forEach((layer) => layer.remove());
+  svgClone.classList.add(EXPORT_FRAME_CLASS);
+
+  // Freeze CSS animations so the particles are the only thing that moves between frames
+  const freezeStyle = document.createElementNS('http://www.w3.org/2000/svg', 'style');
+  freezeStyle.textContent = `.${EXPORT_FRAME_CLASS} * { animation: none !important; }`;
+  // The halo toggle lives on the container, which isn't part of the export
+  if (svgElement.closest('.no-particle-halo')) {
+    freezeStyle.textContent += ` .${EXPORT_FRAME_CLASS} .particle-outer-glow { display: none; }`;
+  }
+  svgClone.appendChild(freezeStyle);
+
+  // Lay the clone out off-screen so its paths can be measured
+  const host = document.createElement('div');
+  host.style.cssText = 'position: fixed; left: -100000px; top: 0; visibility: hidden; pointer-events: none;';
+  host.appendChild(svgClone);
+  document.body.appendChild(host);
+
+  try {
+    const particleGroup = createParticleLayer(svgClone);
+    // Like the live animation, particles only run along the focused path when there is one
+    const edges = filterFocusedEdges(svgClone, findEdgePaths(svgClone));
+    const { config, model } = readParticleSettings(svgElement);
+    const animations = createParticleTimeline(edges, particleGroup, readParticleStyle(svgElement), 0, config, model);
+    const timing = getSequenceTiming(animations);
+
+    // Default to exactly one sequence cycle so the clip loops seamlessly
+    const durationMs = options.durationMs ?? (timing.totalSequenceDuration || frameDelay);
+    const frameCount = Math.max(1, Math.round((durationMs * fps) / 1000));
+
+    const renderFrame = async (index: number) => {
+      renderParticleFrame(animations, index * frameDelay, timing);
+      target.draw(await loadSvgImage(svgClone));
+    };
+
+    const blob = format === 'webm'
+      ? await encodeWebm(target, frameCount, frameDelay, renderFrame)
+      : await encodeGif(target, frameCount, frameDelay, renderFrame);
+
+    downloadBlob(blob, options.filename ?? `diagram.${format}`);
+  } finally {
+    host.remove();
+  }
+}
+
+/**
+ * Reads a Blob into a data URI
+ */
+function blobToDataUri(blob: Blob): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
 }
 
 /**
@@ -64,13 +246,7 @@ async function urlToDataUri(url: string): Promise<string> {
   try {
     // Try direct fetch with cors mode first
     const response = await fetch(url, { mode: 'cors' });
-    const blob = await response.blob();
-    return new Promise<string>((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onloadend = () => resolve(reader.result as string);
-      reader.onerror = reject;
-      reader.readAsDataURL(blob);
-    });
+    return await blobToDataUri(await response.blob());
   } catch (error) {
     console.warn('Failed to convert image to data URI via fetch:', url, error);
 
@@ -118,12 +294,9 @@ async function loadImageAsDataUri(url: string): Promise<string> {
 }
 
 /**
- * Inlines all CSS styles and converts images to data URIs
+ * Collects the CSS rules of every stylesheet in the document
  */
-async function inlineStyles(svgElement: SVGSVGElement): Promise<SVGSVGElement> {
-  const svgClone = svgElement.cloneNode(true) as SVGSVGElement;
-
-  // Get all style sheets
+export function collectDocumentStyles(): string {
   const allStyles: string[] = [];
   for (let i = 0; i < document.styleSheets.length; i++) {
     const sheet = document.styleSheets[i];
@@ -139,19 +312,19 @@ async function inlineStyles(svgElement: SVGSVGElement): Promise<SVGSVGElement> {
       console.warn('Could not access stylesheet:', e);
     }
   }
+  return allStyles.join('\n');
+}
 
-  // Create a style element with all the CSS
-  const styleElement = document.createElementNS('http://www.w3.org/2000/svg', 'style');
-  styleElement.textContent = allStyles.join('\n');
-  svgClone.insertBefore(styleElement, svgClone.firstChild);
-
-  // Convert all image elements to use data URIs
-  const images = svgClone.querySelectorAll('image');
+/**
+ * Converts all linked image elements in an SVG (remote or local assets) to data URIs
+ */
+export async function inlineImages(svgElement: SVGSVGElement): Promise<void> {
+  const images = svgElement.querySelectorAll('image');
   const imagePromises: Promise<void>[] = [];
 
   images.forEach((img) => {
     const href = img.getAttribute('href') || img.getAttribute('xlink:href');
-    if (href && href.startsWith('http')) {
+    if (href && !href.startsWith('data:')) {
       const promise = urlToDataUri(href).then((dataUri) => {
         img.setAttribute('href', dataUri);
         img.removeAttribute('xlink:href');
@@ -162,27 +335,67 @@ async function inlineStyles(svgElement: SVGSVGElement): Promise<SVGSVGElement> {
 
   // Wait for all images to be converted
   await Promise.all(imagePromises);
+}
+
+/**
+ * Inlines all CSS styles and converts images to data URIs
+ */
+async function inlineStyles(svgElement: SVGSVGElement): Promise<SVGSVGElement> {
+  const svgClone = svgElement.cloneNode(true) as SVGSVGElement;
+
+  // Carry the resolved theme tokens over, since the clone leaves the themed container
+  const computedStyle = window.getComputedStyle(svgElement);
+  Object.values(THEME_CSS_VARIABLES).forEach((name) => {
+    const value = computedStyle.getPropertyValue(name).trim();
+    if (value) {
+      svgClone.style.setProperty(name, value);
+    }
+  });
+
+  // Create a style element with all the CSS
+  const styleElement = document.createElementNS('http://www.w3.org/2000/svg', 'style');
+  styleElement.textContent = collectDocumentStyles();
+  svgClone.insertBefore(styleElement, svgClone.firstChild);
+
+  await inlineImages(svgClone);
 
   return svgClone;
 }
 
 /**
- * Converts an SVG element to a canvas with proper styling
+ * Resolves the theme's text color to hex, since jsPDF can't parse rgb(), named or var() colors
+ * The browser does the resolving: a probe inside the SVG's container reports its computed color
  */
-async function svgToCanvas(
-  svgElement: SVGSVGElement,
-  backgroundColor?: string
-): Promise<HTMLCanvasElement> {
-  // Get the container's background
-  const container = svgElement.closest('.mermaid-container') as HTMLElement;
-  const containerStyle = container ? window.getComputedStyle(container) : null;
+function resolvePdfTextColor(svgElement: SVGSVGElement): string {
+  const probe = document.createElement('span');
+  probe.style.color = `var(${THEME_CSS_VARIABLES.text}, ${EXPORT_CONFIG.pdfTextColor})`;
+  (svgElement.parentElement ?? document.body).appendChild(probe);
+  const channels = getComputedStyle(probe).color.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/);
+  probe.remove();
+
+  if (!channels) return EXPORT_CONFIG.pdfTextColor;
+  return `#${channels.slice(1, 4).map((channel) => Number(channel).toString(16).padStart(2, '0')).join('')}`;
+}
 
-  // Get SVG dimensions
+/**
+ * Returns the diagram's laid-out size, ignoring any pan/zoom transform
+ */
+function getSvgSize(svgElement: SVGSVGElement): { width: number; height: number } {
   const bbox = svgElement.getBoundingClientRect();
-  const width = bbox.width;
-  const height = bbox.height;
+  return {
+    width: svgElement.clientWidth || bbox.width,
+    height: svgElement.clientHeight || bbox.height,
+  };
+}
 
-  // Clone SVG with inlined styles (this is now async to handle images)
+/**
+ * Clones the SVG with inlined styles at its on-screen size,
+ * growing the viewBox by `padding` CSS pixels on every side
+ */
+async function prepareSvgClone(svgElement: SVGSVGElement, padding: number): Promise<SVGSVGElement> {
+  const { width, height } = getSvgSize(svgElement);
+
+  // Clone SVG with inlined styles (this is async to handle images)
   const svgClone = await inlineStyles(svgElement);
 
   // Set xmlns if not present
@@ -190,12 +403,305 @@ async function svgToCanvas(
     svgClone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
   }
 
-  // Set explicit width and height
-  svgClone.setAttribute('width', width.toString());
-  svgClone.setAttribute('height', height.toString());
+  const viewBox = svgElement.viewBox.baseVal;
+  if (padding > 0 && viewBox && viewBox.width && viewBox.height) {
+    // Convert the padding from CSS pixels into viewBox units
+    const padX = padding * (viewBox.width / width);
+    const padY = padding * (viewBox.height / height);
+    svgClone.setAttribute(
+      'viewBox',
+      `${viewBox.x - padX} ${viewBox.y - padY} ${viewBox.width + padX * 2} ${viewBox.height + padY * 2}`
+    );
+  }
+
+  // Set explicit width and height, and drop Mermaid's responsive max-width
+  svgClone.setAttribute('width', (width + padding * 2).toString());
+  svgClone.setAttribute('height', (height + padding * 2).toString());
+  svgClone.style.maxWidth = 'none';
+
+  return svgClone;
+}
+
+/**
+ * Presentation properties copied from the live diagram onto the PDF clone
+ */
+const PDF_STYLE_PROPERTIES = [
+  'fill',
+  'fill-opacity',
+  'stroke',
+  'stroke-width',
+  'stroke-opacity',
+  'stroke-dasharray',
+  'stroke-linecap',
+  'stroke-linejoin',
+  'opacity',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'font-style',
+  'text-anchor',
+];
+
+/**
+ * Prepares the inlined SVG for svg2pdf, which doesn't understand CSS variables
+ * or HTML labels: computed styles are written out as attributes and
+ * foreignObject labels are replaced by SVG text
+ */
+async function prepareSvgForPdf(svgElement: SVGSVGElement): Promise<SVGSVGElement> {
+  const svgClone = await prepareSvgClone(svgElement, 0);
+
+  // inlineStyles prepends a single <style>, so the remaining elements line up with the source
+  const sourceElements = Array.from(svgElement.querySelectorAll('*'));
+  const cloneElements = Array.from(svgClone.querySelectorAll('*')).slice(1);
+
+  cloneElements.forEach((clone, index) => {
+    const source = sourceElements[index];
+    // Labels inside a foreignObject are handled with the foreignObject itself
+    if (!source || clone.parentElement?.closest('foreignObject')) return;
+
+    const computed = window.getComputedStyle(source);
+    if (computed.display === 'none' || computed.visibility === 'hidden') {
+      clone.setAttribute('visibility', 'hidden');
+      return;
+    }
+
+    if (clone.tagName === 'foreignObject') {
+      replaceForeignObject(clone, source as SVGForeignObjectElement);
+      return;
+    }
+
+    PDF_STYLE_PROPERTIES.forEach((property) => {
+      const value = computed.getPropertyValue(property);
+      if (value && !value.startsWith('url(')) {
+        clone.setAttribute(property, value);
+      }
+    });
+  });
+
+  // The stylesheets are now redundant, and particles have no meaning in a static document
+  svgClone.querySelectorAll('style, foreignObject, .particle-layer').forEach((element) => element.remove());
+
+  return svgClone;
+}
+
+/**
+ * Inserts SVG text equivalent to an HTML label before its foreignObject
+ */
+function replaceForeignObject(clone: Element, source: SVGForeignObjectElement): void {
+  const label = (source.querySelector('span, p, div') ?? source) as HTMLElement;
+  const lines = (label.innerText ?? label.textContent ?? '')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+  if (lines.length === 0) return;
+
+  const computed = window.getComputedStyle(label);
+  const fontSize = parseFloat(computed.fontSize) || 16;
+  const lineHeight = fontSize * 1.2;
+  const x = source.x.baseVal.value + source.width.baseVal.value / 2;
+  const y = source.y.baseVal.value + source.height.baseVal.value / 2;
+
+  const text = document.createElementNS('http://www.w3.org/2000/svg', 'text');
+  text.setAttribute('text-anchor', 'middle');
+  text.setAttribute('fill', computed.color);
+  text.setAttribute('font-family', computed.fontFamily);
+  text.setAttribute('font-size', `${fontSize}`);
+  text.setAttribute('font-weight', computed.fontWeight);
+
+  // Center the block of lines vertically; 0.35em approximates the baseline offset
+  lines.forEach((line, index) => {
+    const tspan = document.createElementNS('http://www.w3.org/2000/svg', 'tspan');
+    tspan.setAttribute('x', `${x}`);
+    tspan.setAttribute('y', `${y - ((lines.length - 1) * lineHeight) / 2 + index * lineHeight + fontSize * 0.35}`);
+    tspan.textContent = line;
+    text.appendChild(tspan);
+  });
+
+  clone.parentNode?.insertBefore(text, clone);
+}
+
+/**
+ * Resolves an ExportBackground into a CSS background value for SVG exports
+ */
+function resolveCssBackground(svgElement: SVGSVGElement, background: ExportBackground): string {
+  if (background !== 'container') {
+    return background;
+  }
+
+  const container = svgElement.closest('.mermaid-container');
+  if (!container) {
+    return EXPORT_CONFIG.fallbackBackground;
+  }
+
+  const style = window.getComputedStyle(container);
+  return style.backgroundImage !== 'none' ? style.backgroundImage : style.backgroundColor;
+}
+
+/**
+ * Builds a canvas gradient from a computed CSS linear-gradient() value
+ * Returns null for anything else (radial gradients, images, multiple layers)
+ */
+function parseLinearGradient(
+  ctx: CanvasRenderingContext2D,
+  value: string,
+  width: number,
+  height: number
+): CanvasGradient | null {
+  const match = value.match(/^linear-gradient\((.*)\)$/);
+  if (!match) return null;
+
+  // Split on top-level commas only, so rgb(a, b, c) stays intact
+  const parts = match[1].split(/,(?![^(]*\))/).map((part) => part.trim());
+
+  let angle = 180;
+  const sideAngles: Record<string, number> = { 'to top': 0, 'to right': 90, 'to bottom': 180, 'to left': 270 };
+  if (/^-?[\d.]+deg$/.test(parts[0])) {
+    angle = parseFloat(parts.shift()!);
+  } else if (parts[0] in sideAngles) {
+    angle = sideAngles[parts.shift()!];
+  } else if (parts[0].startsWith('to ')) {
+    return null;
+  }
+
+  const stops = parts.map((part) => {
+    const stop = part.match(/^(.*?)(?:\s+(-?[\d.]+)%)?$/)!;
+    return { color: stop[1], offset: stop[2] !== undefined ? parseFloat(stop[2]) / 100 : undefined };
+  });
+  if (stops.length < 2) return null;
+
+  // Same gradient line geometry as CSS: through the center, long enough to reach the corners
+  const radians = (angle * Math.PI) / 180;
+  const dx = Math.sin(radians);
+  const dy = -Math.cos(radians);
+  const halfLength = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+  const gradient = ctx.createLinearGradient(
+    width / 2 - dx * halfLength,
+    height / 2 - dy * halfLength,
+    width / 2 + dx * halfLength,
+    height / 2 + dy * halfLength
+  );
+
+  try {
+    stops.forEach((stop, index) => {
+      const offset = stop.offset ?? index / (stops.length - 1);
+      gradient.addColorStop(Math.min(1, Math.max(0, offset)), stop.color);
+    });
+  } catch {
+    return null;
+  }
+
+  return gradient;
+}
+
+/**
+ * Resolves an ExportBackground into a canvas fill, or null for no background
+ */
+function resolveCanvasBackground(
+  ctx: CanvasRenderingContext2D,
+  svgElement: SVGSVGElement,
+  background: ExportBackground,
+  width: number,
+  height: number
+): string | CanvasGradient | null {
+  if (background === 'transparent') {
+    return null;
+  }
+
+  if (background !== 'container') {
+    return background;
+  }
+
+  const container = svgElement.closest('.mermaid-container');
+  if (!container) {
+    return EXPORT_CONFIG.fallbackBackground;
+  }
+
+  const style = window.getComputedStyle(container);
+  if (style.backgroundImage !== 'none') {
+    const gradient = parseLinearGradient(ctx, style.backgroundImage, width, height);
+    if (gradient) {
+      return gradient;
+    }
+  }
+
+  // A fully transparent container would otherwise export as black in JPG
+  const isTransparent = style.backgroundColor === 'transparent' || style.backgroundColor === 'rgba(0, 0, 0, 0)';
+  return isTransparent ? EXPORT_CONFIG.fallbackBackground : style.backgroundColor;
+}
+
+/**
+ * Canvas sized for an export, which redraws the background and diagram on each draw()
+ */
+interface RasterTarget {
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D;
+  draw: (img: HTMLImageElement) => void;
+}
+
+/**
+ * Creates the canvas for a raster export, resolving scale, padding and background
+ */
+function createRasterTarget(
+  svgElement: SVGSVGElement,
+  options: ExportOptions,
+  defaultScale: number,
+  defaultBackground: ExportBackground,
+  supportsAlpha: boolean
+): RasterTarget {
+  const { width, height } = getSvgSize(svgElement);
+  const padding = options.padding ?? EXPORT_CONFIG.padding;
+  const outerWidth = width + padding * 2;
+  const outerHeight = height + padding * 2;
+
+  // Resolve the pixel ratio, then shrink it to respect the max dimensions
+  let scale = options.dpi ? options.dpi / EXPORT_CONFIG.baseDpi : options.scale ?? defaultScale;
+  if (options.maxWidth) {
+    scale = Math.min(scale, options.maxWidth / outerWidth);
+  }
+  if (options.maxHeight) {
+    scale = Math.min(scale, options.maxHeight / outerHeight);
+  }
+
+  // Create canvas
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(outerWidth * scale));
+  canvas.height = Math.max(1, Math.round(outerHeight * scale));
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
 
-  const serializer = new XMLSerializer();
-  const svgString = serializer.serializeToString(svgClone);
+  ctx.scale(scale, scale);
+
+  // Formats without an alpha channel get white instead of a transparent background
+  let background = options.background ?? defaultBackground;
+  if (!supportsAlpha && background === 'transparent') {
+    background = '#FFFFFF';
+  }
+  const fill = resolveCanvasBackground(ctx, svgElement, background, outerWidth, outerHeight);
+
+  return {
+    canvas,
+    ctx,
+    draw: (img) => {
+      ctx.clearRect(0, 0, outerWidth, outerHeight);
+      if (fill) {
+        ctx.fillStyle = fill;
+        ctx.fillRect(0, 0, outerWidth, outerHeight);
+      }
+
+      // Draw the SVG with padding
+      ctx.drawImage(img, padding, padding, width, height);
+    },
+  };
+}
+
+/**
+ * Loads a prepared SVG clone as an image
+ */
+async function loadSvgImage(svgClone: SVGSVGElement): Promise<HTMLImageElement> {
+  const svgString = new XMLSerializer().serializeToString(svgClone);
 
   // Create image from SVG
   const img = new Image();
@@ -215,57 +721,131 @@ async function svgToCanvas(
     img.src = url;
   });
 
-  // Create canvas and draw
-  const canvas = document.createElement('canvas');
-  const scale = 2; // 2x resolution for better quality
-  const padding = 100; // Add padding around the diagram
-  canvas.width = (width + padding * 2) * scale;
-  canvas.height = (height + padding * 2) * scale;
+  return img;
+}
 
-  const ctx = canvas.getContext('2d');
-  if (!ctx) {
-    throw new Error('Failed to get canvas context');
+/**
+ * Converts an SVG element to a canvas with proper styling
+ */
+async function svgToCanvas(
+  svgElement: SVGSVGElement,
+  format: Exclude<ExportFormat, 'svg'>,
+  options: ExportOptions
+): Promise<HTMLCanvasElement> {
+  const isJpg = format === 'jpg';
+  const target = createRasterTarget(
+    svgElement,
+    options,
+    EXPORT_CONFIG.scale,
+    isJpg ? '#FFFFFF' : 'container',
+    !isJpg
+  );
+
+  target.draw(await loadSvgImage(await prepareSvgClone(svgElement, 0)));
+  return target.canvas;
+}
+
+/**
+ * Encodes frames into a looping GIF
+ */
+async function encodeGif(
+  target: RasterTarget,
+  frameCount: number,
+  frameDelay: number,
+  renderFrame: (index: number) => Promise<void>
+): Promise<Blob> {
+  const { GIFEncoder, quantize, applyPalette } = await import('gifenc').catch(() => {
+    throw new Error('GIF export requires the "gifenc" package to be installed');
+  });
+
+  const gif = GIFEncoder();
+  const { width, height } = target.canvas;
+
+  for (let i = 0; i < frameCount; i++) {
+    await renderFrame(i);
+    const { data } = target.ctx.getImageData(0, 0, width, height);
+    const palette = quantize(data, 256);
+    gif.writeFrame(applyPalette(data, palette), width, height, { palette, delay: frameDelay, repeat: 0 });
   }
 
-  ctx.scale(scale, scale);
+  gif.finish();
+  return new Blob([gif.bytes()], { type: 'image/gif' });
+}
+
+/**
+ * Records frames into a WebM video
+ * Frames are handed to the recorder on a real-time schedule, so capture takes as long as the clip
+ */
+async function encodeWebm(
+  target: RasterTarget,
+  frameCount: number,
+  frameDelay: number,
+  renderFrame: (index: number) => Promise<void>
+): Promise<Blob> {
+  if (typeof MediaRecorder === 'undefined' || !target.canvas.captureStream) {
+    throw new Error('WebM export is not supported in this browser');
+  }
+
+  const stream = target.canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const mimeType = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find((type) =>
+    MediaRecorder.isTypeSupported(type)
+  );
+
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) {
+      chunks.push(event.data);
+    }
+  };
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+
+  const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, Math.max(0, ms)));
+
+  recorder.start();
+  const startedAt = performance.now();
 
-  // Add background from container or specified color
-  if (backgroundColor) {
-    ctx.fillStyle = backgroundColor;
-  } else if (containerStyle?.background) {
-    // Try to use the container's background
-    ctx.fillStyle = '#F7F6F2'; // Default Truemed background
-  } else {
-    ctx.fillStyle = '#F7F6F2';
+  for (let i = 0; i < frameCount; i++) {
+    await renderFrame(i);
+    await wait(startedAt + i * frameDelay - performance.now());
+    track.requestFrame();
   }
-  ctx.fillRect(0, 0, width + padding * 2, height + padding * 2);
 
-  // Draw the SVG with padding
-  ctx.drawImage(img, padding, padding, width, height);
+  // Hold the last frame for its full duration
+  await wait(frameDelay);
+  recorder.stop();
+  await stopped;
+  stream.getTracks().forEach((streamTrack) => streamTrack.stop());
 
-  return canvas;
+  return new Blob(chunks, { type: 'video/webm' });
 }
 
 /**
- * Downloads a canvas as an image file
+ * Encodes a canvas as an image Blob
  */
-function downloadCanvas(
-  canvas: HTMLCanvasElement,
-  filename: string,
-  mimeType: string
-): void {
-  canvas.toBlob((blob) => {
-    if (!blob) {
-      throw new Error('Failed to create blob from canvas');
-    }
+function canvasToBlob(canvas: HTMLCanvasElement, mimeType: string, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to create blob from canvas'))),
+      mimeType,
+      quality
+    );
+  });
+}
 
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-  }, mimeType);
+/**
+ * Triggers a browser download of a Blob
+ */
+function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
 }
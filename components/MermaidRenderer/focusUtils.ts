@@ -0,0 +1,177 @@
+/**
+ * Path tracing over a diagram's edges and the highlighted/dimmed states that show it
+ *
+ * Traces use the node and edge ids from the diagram model and find their elements
+ * through the `data-node-id` / `data-edge-id` attributes stamped by annotateDiagram.
+ */
+
+import { DiagramEdge, DiagramFocus, DiagramModel, FocusDirection, FocusResult } from './types';
+
+/**
+ * Class on the SVG root while a focus is applied
+ */
+const FOCUS_CLASS = 'has-focus';
+const HIGHLIGHTED_CLASS = 'highlighted';
+const DIMMED_CLASS = 'dimmed';
+
+/**
+ * A model's edges indexed by source and target node
+ */
+export interface Graph {
+  outgoing: Map<string, DiagramEdge[]>;
+  incoming: Map<string, DiagramEdge[]>;
+}
+
+/**
+ * Indexes the model's edges by source and target node
+ */
+export function buildGraph(model: DiagramModel): Graph {
+  const graph: Graph = { outgoing: new Map(), incoming: new Map() };
+  const add = (index: Map<string, DiagramEdge[]>, nodeId: string, edge: DiagramEdge) => {
+    index.set(nodeId, [...(index.get(nodeId) ?? []), edge]);
+  };
+
+  model.edges.forEach((edge) => {
+    add(graph.outgoing, edge.from, edge);
+    add(graph.incoming, edge.to, edge);
+  });
+
+  return graph;
+}
+
+/**
+ * Adds every node and edge reachable from `start` in one direction
+ */
+function traceChain(graph: Graph, start: string, direction: 'outgoing' | 'incoming', result: FocusResult): void {
+  const visited = new Set([start]);
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    graph[direction].get(nodeId)?.forEach((edge) => {
+      const next = direction === 'outgoing' ? edge.to : edge.from;
+      result.edges.add(edge.id);
+      result.nodes.add(next);
+      if (!visited.has(next)) {
+        visited.add(next);
+        queue.push(next);
+      }
+    });
+  }
+}
+
+/**
+ * Breadth-first search for the fewest edges from `from` to `to`
+ * Returns the edges along the path, or null if `to` can't be reached
+ */
+function findShortestPath(graph: Graph, from: string, to: string, directed: boolean): DiagramEdge[] | null {
+  const previous = new Map<string, DiagramEdge | null>([[from, null]]);
+  const queue = [from];
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    if (nodeId === to) break;
+
+    const steps = (graph.outgoing.get(nodeId) ?? []).map((edge) => [edge, edge.to] as const);
+    if (!directed) {
+      steps.push(...(graph.incoming.get(nodeId) ?? []).map((edge) => [edge, edge.from] as const));
+    }
+
+    steps.forEach(([edge, next]) => {
+      if (!previous.has(next)) {
+        previous.set(next, edge);
+        queue.push(next);
+      }
+    });
+  }
+
+  if (!previous.has(to)) return null;
+
+  const path: DiagramEdge[] = [];
+  for (let nodeId = to, edge = previous.get(to); edge; edge = previous.get(nodeId)) {
+    path.unshift(edge);
+    nodeId = edge.to === nodeId ? edge.from : edge.to;
+  }
+  return path;
+}
+
+/**
+ * Resolves a focus into the nodes and edges to highlight
+ * Unknown node ids resolve to null, so nothing is dimmed.
+ */
+export function resolveFocus(model: DiagramModel, focus: DiagramFocus): FocusResult | null {
+  const graph = buildGraph(model);
+
+  if (typeof focus === 'object' && 'from' in focus) {
+    if (!model.nodes.has(focus.from) || !model.nodes.has(focus.to)) return null;
+
+    // Follow edge direction either way round before falling back to ignoring it
+    const path = findShortestPath(graph, focus.from, focus.to, true)
+      ?? findShortestPath(graph, focus.to, focus.from, true)
+      ?? findShortestPath(graph, focus.from, focus.to, false);
+
+    const result: FocusResult = { nodes: new Set([focus.from, focus.to]), edges: new Set() };
+    path?.forEach((edge) => {
+      result.edges.add(edge.id);
+      result.nodes.add(edge.from);
+      result.nodes.add(edge.to);
+    });
+    return result;
+  }
+
+  const nodeId = typeof focus === 'string' ? focus : focus.node;
+  const direction: FocusDirection = typeof focus === 'string' ? 'both' : focus.direction ?? 'both';
+  if (!model.nodes.has(nodeId)) return null;
+
+  const result: FocusResult = { nodes: new Set([nodeId]), edges: new Set() };
+  if (direction !== 'upstream') traceChain(graph, nodeId, 'outgoing', result);
+  if (direction !== 'downstream') traceChain(graph, nodeId, 'incoming', result);
+  return result;
+}
+
+/**
+ * Returns the focus a node click leads to: shift-click extends the current focus to a
+ * shortest path, clicking the focused node again clears it
+ */
+export function getClickFocus(current: DiagramFocus | null, nodeId: string, extend: boolean): DiagramFocus | null {
+  const currentNode = current === null ? null
+    : typeof current === 'string' ? current
+    : 'node' in current ? current.node
+    : current.from;
+
+  if (extend && currentNode && currentNode !== nodeId) {
+    return { from: currentNode, to: nodeId };
+  }
+
+  const isFocusedNode = current !== null && (typeof current === 'string' || 'node' in current) && currentNode === nodeId;
+  return isFocusedNode ? null : nodeId;
+}
+
+/**
+ * Marks focused elements as highlighted and everything else as dimmed, or clears both
+ */
+export function applyFocus(svgElement: SVGSVGElement, result: FocusResult | null): void {
+  svgElement.classList.toggle(FOCUS_CLASS, result !== null);
+
+  svgElement.querySelectorAll('[data-node-id], [data-edge-id]').forEach((element) => {
+    element.classList.remove(HIGHLIGHTED_CLASS, DIMMED_CLASS);
+
+    // Only the outermost element of a node is marked, so opacities don't compound
+    if (!result || element.parentElement?.closest('[data-node-id]')) return;
+
+    const nodeId = element.getAttribute('data-node-id');
+    const edgeId = element.getAttribute('data-edge-id');
+    const isFocused = nodeId !== null ? result.nodes.has(nodeId) : result.edges.has(edgeId!);
+    element.classList.add(isFocused ? HIGHLIGHTED_CLASS : DIMMED_CLASS);
+  });
+}
+
+/**
+ * Keeps only the edges that are part of the applied focus, or all of them without one
+ */
+export function filterFocusedEdges(svgElement: SVGSVGElement, edges: ArrayLike<Element>): Element[] {
+  const all = Array.from(edges);
+  return svgElement.classList.contains(FOCUS_CLASS)
+    ? all.filter((edge) => edge.classList.contains(HIGHLIGHTED_CLASS))
+    : all;
+}
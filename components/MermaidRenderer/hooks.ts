@@ -0,0 +1,31 @@
+'use client';
+
+/**
+ * React hooks shared by the MermaidRenderer components
+ */
+
+import { useCallback, useSyncExternalStore } from 'react';
+
+/**
+ * Tracks whether a CSS media query matches, updating live when it changes
+ * Always false during server rendering or when disabled
+ */
+export function useMediaQuery(query: string, enabled: boolean = true): boolean {
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      if (!enabled || typeof window === 'undefined' || !window.matchMedia) {
+        return () => {};
+      }
+
+      const mediaQuery = window.matchMedia(query);
+      mediaQuery.addEventListener('change', onChange);
+      return () => mediaQuery.removeEventListener('change', onChange);
+    },
+    [query, enabled]
+  );
+
+  const getSnapshot = () =>
+    enabled && typeof window !== 'undefined' && !!window.matchMedia && window.matchMedia(query).matches;
+
+  return useSyncExternalStore(subscribe, getSnapshot, () => false);
+}
@@ -0,0 +1,368 @@
+/**
+ * Images and icons in diagram nodes
+ *
+ * Charts declare an image with `img:<url>` or `icon:<set>-<name>` in front of a participant,
+ * class, state or flowchart node label (see preprocessChart), optionally followed by options
+ * such as `{size=64,shape=circle,position=top}`. Icon sets are registered by name and map
+ * icon names to local assets, so diagrams that use them work offline.
+ *
+ * Images are added after Mermaid has laid the diagram out. A node without room for its image
+ * is enlarged around its center; the layout isn't recomputed, so edges keep their endpoints.
+ */
+
+import { IconSet, ImageConfig, ImagePosition, ImageShape, NodeImage } from './types';
+import { IMAGE_CONFIG } from './constants';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/**
+ * Class of node shapes scaled with a transform to fit an image
+ */
+const SCALED_CLASS = 'node-image-scaled';
+
+/**
+ * Registry of icon sets by name
+ */
+const iconSets = new Map<string, IconSet>();
+
+/**
+ * Registers a named icon set so its icons can be used with `icon:<set>-<name>`
+ */
+export function registerIconSet(name: string, icons: IconSet): void {
+  iconSets.set(name, icons);
+}
+
+/**
+ * Looks up a registered icon set by name
+ */
+export function getIconSet(name: string): IconSet | undefined {
+  return iconSets.get(name);
+}
+
+/**
+ * Resolves `<set>-<name>` to an image URL, turning inline SVG markup into a data URI
+ * Set names may contain hyphens, so the longest matching set wins
+ */
+export function resolveIcon(reference: string): string | undefined {
+  let icon: string | undefined;
+  let matchedLength = 0;
+  iconSets.forEach((icons, setName) => {
+    const name = reference.slice(setName.length + 1);
+    if (setName.length > matchedLength && reference.startsWith(`${setName}-`) && icons[name] !== undefined) {
+      icon = icons[name];
+      matchedLength = setName.length;
+    }
+  });
+
+  if (icon === undefined) return undefined;
+  return icon.trimStart().startsWith('<') ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(icon)}` : icon;
+}
+
+/**
+ * An image token read from chart source
+ */
+export interface ImageToken {
+  /** The image, or null when it can't be shown (malformed, or an unknown icon) */
+  image: NodeImage | null;
+  /** Index just past the token */
+  end: number;
+  /** True when the token can't be read, so the declaration should be left as written */
+  isMalformed: boolean;
+  /** What's wrong with the token, if anything */
+  problems: string[];
+}
+
+/**
+ * Characters that end an unquoted image URL, besides whitespace
+ * Brackets and quotes close the labels that images are declared in
+ */
+const URL_TERMINATORS = /[\s"[\]()<>|]/;
+
+/**
+ * Options syntax: `{key=value,...}`, possibly empty
+ */
+const OPTIONS_PATTERN = /^\{(?:\s*\w+\s*=[^,{}]*(?:,\s*\w+\s*=[^,{}]*)*)?\s*\}$/;
+
+/**
+ * Applies `key=value,...` options to an image, collecting problems with unknown keys and bad values
+ */
+function applyImageOptions(image: NodeImage, options: string, problems: string[]): void {
+  options.split(',').filter((option) => option.trim()).forEach((option) => {
+    const [key, value = ''] = option.split('=').map((part) => part.trim());
+    if (key === 'size') {
+      if (Number(value) > 0) {
+        image.size = Number(value);
+      } else {
+        problems.push(`Invalid image size "${value}" (expected a positive number)`);
+      }
+    } else if (key === 'shape') {
+      if (['circle', 'rounded'].includes(value)) {
+        image.shape = value as ImageShape;
+      } else {
+        problems.push(`Invalid image shape "${value}" (expected circle or rounded)`);
+      }
+    } else if (key === 'position') {
+      if (['left', 'top', 'background'].includes(value)) {
+        image.position = value as ImagePosition;
+      } else {
+        problems.push(`Invalid image position "${value}" (expected left, top or background)`);
+      }
+    } else {
+      problems.push(`Unknown image option "${key}"`);
+    }
+  });
+}
+
+/**
+ * Reads the image token starting at `start`: `img:<url>` or `icon:<set>-<name>`, then optional
+ * `{key=value,...}` options. URLs with spaces, brackets or braces are written in double quotes,
+ * as in `img:"/logos/acme inc.png"{size=64}`. An unquoted URL keeps a trailing `{...}` that
+ * isn't valid options syntax, so query strings with braces still work.
+ */
+export function readImageToken(text: string, start: number): ImageToken {
+  const kind = text.startsWith('icon:', start) ? 'icon' : 'img';
+  const problems: string[] = [];
+  const malformed = (problem: string): ImageToken => ({ image: null, end: start, isMalformed: true, problems: [problem] });
+  let index = start + kind.length + 1;
+  let source: string;
+  let options = '';
+
+  if (text[index] === '"') {
+    const close = text.indexOf('"', index + 1);
+    if (close === -1) return malformed('Unterminated quoted image URL');
+    source = text.slice(index + 1, close);
+    index = close + 1;
+
+    if (text[index] === '{') {
+      const optionsEnd = text.indexOf('}', index);
+      if (optionsEnd === -1) return malformed('Unterminated image options');
+      options = text.slice(index + 1, optionsEnd);
+      index = optionsEnd + 1;
+    }
+  } else {
+    const length = text.slice(index).search(URL_TERMINATORS);
+    source = text.slice(index, length === -1 ? text.length : index + length);
+    index += source.length;
+
+    const optionsStart = source.lastIndexOf('{');
+    if (optionsStart !== -1 && OPTIONS_PATTERN.test(source.slice(optionsStart))) {
+      options = source.slice(optionsStart + 1, -1);
+      source = source.slice(0, optionsStart);
+    } else if (/\{\s*\w+\s*=[^}]*$/.test(source)) {
+      // Options with spaces after the commas run past the end of the URL
+      const optionsEnd = text.indexOf('}', index);
+      if (optionsEnd === -1 || !OPTIONS_PATTERN.test(source.slice(optionsStart) + text.slice(index, optionsEnd + 1))) {
+        return malformed('Unterminated image options');
+      }
+      options = source.slice(optionsStart + 1) + text.slice(index, optionsEnd);
+      source = source.slice(0, optionsStart);
+      index = optionsEnd + 1;
+    }
+  }
+
+  if (!source.trim()) {
+    return malformed(kind === 'icon' ? 'Missing icon name after "icon:"' : 'Missing image URL after "img:"');
+  }
+
+  // Options are checked even for unknown icons, so every problem is reported at once
+  const href = kind === 'icon' ? resolveIcon(source) : source;
+  const image: NodeImage = { href: href ?? source };
+  if (href === undefined) {
+    problems.push(`Unknown icon "${source}"`);
+  }
+  applyImageOptions(image, options, problems);
+  return { image: href === undefined ? null : image, end: index, isMalformed: false, problems };
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Returns an element's box in its parent's coordinates
+ * Mermaid only translates the parts of a node, so only translations are applied
+ */
+function getLocalBox(element: SVGGraphicsElement): Box {
+  const box = element.getBBox();
+  const translate = element.getAttribute('transform')?.match(/translate\(\s*([-\d.e]+)(?:[\s,]+([-\d.e]+))?/);
+  return {
+    x: box.x + (translate ? Number(translate[1]) : 0),
+    y: box.y + (translate?.[2] ? Number(translate[2]) : 0),
+    width: box.width,
+    height: box.height,
+  };
+}
+
+/**
+ * Returns the smallest box around a set of boxes, or null if there are none
+ */
+function unionBoxes(boxes: Box[]): Box | null {
+  if (boxes.length === 0) return null;
+  const left = Math.min(...boxes.map((box) => box.x));
+  const top = Math.min(...boxes.map((box) => box.y));
+  const right = Math.max(...boxes.map((box) => box.x + box.width));
+  const bottom = Math.max(...boxes.map((box) => box.y + box.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Adds an image to a node: beside or above its content, or filling its shape behind it
+ * The image and content are centered together, the shape is stretched around its center
+ * when they don't fit, and the content moves over. Returns a function that undoes it all.
+ */
+export function placeImage(
+  svgElement: SVGSVGElement,
+  shape: SVGGraphicsElement,
+  content: SVGGraphicsElement[],
+  image: NodeImage,
+  options: { className: string; clipPathId: string; config?: ImageConfig }
+): () => void {
+  const { className, clipPathId, config = IMAGE_CONFIG } = options;
+  const { href, size = config.size, shape: clipShape = config.shape, position = config.position } = image;
+  const group = shape.parentElement!;
+
+  const changed: Array<[Element, string, string | null]> = [];
+  const setAttribute = (element: Element, name: string, value: string) => {
+    changed.push([element, name, element.getAttribute(name)]);
+    element.setAttribute(name, value);
+  };
+  const prependTransform = (element: Element, transform: string) => {
+    const current = element.getAttribute('transform');
+    setAttribute(element, 'transform', current ? `${transform} ${current}` : transform);
+  };
+
+  // The stylesheet transforms rects, circles and ellipses, so those are resized through their attributes
+  const stretchShape = (isHorizontal: boolean, scale: number, cx: number, cy: number) => {
+    const read = (name: string) => parseFloat(shape.getAttribute(name) || '0');
+    const [position, length] = isHorizontal ? ['x', 'width'] : ['y', 'height'];
+    if (shape.tagName === 'rect') {
+      setAttribute(shape, position, (read(position) - (read(length) * (scale - 1)) / 2).toString());
+      setAttribute(shape, length, (read(length) * scale).toString());
+    } else if (shape.tagName === 'circle') {
+      setAttribute(shape, 'r', (read('r') * scale).toString());
+    } else if (shape.tagName === 'ellipse') {
+      const radius = isHorizontal ? 'rx' : 'ry';
+      setAttribute(shape, radius, (read(radius) * scale).toString());
+    } else {
+      prependTransform(shape, `translate(${cx} ${cy}) scale(${isHorizontal ? scale : 1} ${isHorizontal ? 1 : scale}) translate(${-cx} ${-cy})`);
+      shape.classList.add(SCALED_CLASS);
+    }
+  };
+
+  const box = getLocalBox(shape);
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  let imageBox = box;
+
+  if (position !== 'background') {
+    const isLeft = position === 'left';
+    const contentBox = unionBoxes(content.map(getLocalBox)) ?? { x: cx, y: cy, width: 0, height: 0 };
+    const contentLength = isLeft ? contentBox.width : contentBox.height;
+    const total = size + config.gap + contentLength;
+    const start = (isLeft ? cx : cy) - total / 2;
+
+    const scale = (total + 2 * config.inset) / (isLeft ? box.width : box.height);
+    if (scale > 1) {
+      stretchShape(isLeft, scale, cx, cy);
+    }
+
+    const contentCenter = isLeft ? contentBox.x + contentBox.width / 2 : contentBox.y + contentBox.height / 2;
+    const shift = start + size + config.gap + contentLength / 2 - contentCenter;
+    content.forEach((element) => prependTransform(element, isLeft ? `translate(${shift} 0)` : `translate(0 ${shift})`));
+
+    imageBox = isLeft
+      ? { x: start, y: cy - size / 2, width: size, height: size }
+      : { x: cx - size / 2, y: start, width: size, height: size };
+  }
+
+  const existingDefs = svgElement.querySelector('defs');
+  const defs = existingDefs || svgElement.insertBefore(
+    document.createElementNS(SVG_NS, 'defs'),
+    svgElement.firstChild
+  );
+  const clipPath = document.createElementNS(SVG_NS, 'clipPath');
+  clipPath.setAttribute('id', clipPathId);
+
+  const clip = document.createElementNS(SVG_NS, clipShape === 'circle' ? 'circle' : 'rect');
+  if (clipShape === 'circle') {
+    clip.setAttribute('cx', (imageBox.x + imageBox.width / 2).toString());
+    clip.setAttribute('cy', (imageBox.y + imageBox.height / 2).toString());
+    clip.setAttribute('r', (Math.min(imageBox.width, imageBox.height) / 2).toString());
+  } else {
+    clip.setAttribute('x', imageBox.x.toString());
+    clip.setAttribute('y', imageBox.y.toString());
+    clip.setAttribute('width', imageBox.width.toString());
+    clip.setAttribute('height', imageBox.height.toString());
+    clip.setAttribute('rx', config.borderRadius.toString());
+    clip.setAttribute('ry', config.borderRadius.toString());
+  }
+  clipPath.appendChild(clip);
+  defs.appendChild(clipPath);
+
+  const imageElement = document.createElementNS(SVG_NS, 'image');
+  imageElement.setAttribute('href', href);
+  imageElement.setAttribute('x', imageBox.x.toString());
+  imageElement.setAttribute('y', imageBox.y.toString());
+  imageElement.setAttribute('width', imageBox.width.toString());
+  imageElement.setAttribute('height', imageBox.height.toString());
+  imageElement.setAttribute('class', `${className} node-image-${position}`);
+  imageElement.setAttribute('clip-path', `url(#${clipPathId})`);
+
+  // Background images cover the shape and sit behind the content
+  if (position === 'background') {
+    imageElement.setAttribute('preserveAspectRatio', 'xMidYMid slice');
+    group.insertBefore(imageElement, shape.nextSibling);
+  } else {
+    group.appendChild(imageElement);
+  }
+
+  return () => {
+    imageElement.remove();
+    clipPath.remove();
+    if (!existingDefs && !defs.hasChildNodes()) defs.remove();
+    shape.classList.remove(SCALED_CLASS);
+    [...changed].reverse().forEach(([element, name, value]) => {
+      if (value === null) {
+        element.removeAttribute(name);
+      } else {
+        element.setAttribute(name, value);
+      }
+    });
+  };
+}
+
+/**
+ * Adds images to flowchart, class and state nodes, found by the `data-node-id` attributes
+ * stamped by annotateDiagram. Nodes that already have an image are skipped.
+ * Returns a function that removes the images
+ */
+export function addNodeImages(
+  svgElement: SVGSVGElement,
+  images: Map<string, NodeImage>,
+  diagramId: string
+): () => void {
+  const disposers: Array<() => void> = [];
+
+  if (images.size > 0) {
+    svgElement.querySelectorAll('g[data-node-id]').forEach((group, index) => {
+      const image = images.get(group.getAttribute('data-node-id')!);
+      if (!image || group.parentElement?.closest('[data-node-id]') || group.querySelector(':scope > .node-image')) return;
+
+      const shape = group.querySelector<SVGGraphicsElement>(':scope > .label-container')
+        ?? group.querySelector<SVGGraphicsElement>(':scope > rect, :scope > circle, :scope > ellipse, :scope > polygon, :scope > path');
+      if (!shape) return;
+
+      const content = Array.from(group.children).filter((child) => child !== shape) as SVGGraphicsElement[];
+      disposers.push(placeImage(svgElement, shape, content, image, {
+        className: 'node-image',
+        clipPathId: `${diagramId}-node-image-clip-${index}`,
+      }));
+    });
+  }
+
+  // Undone in reverse, since later images may share the defs added for earlier ones
+  return () => [...disposers].reverse().forEach((dispose) => dispose());
+}
@@ -18,530 +18,818 @@
  * ```
  */
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import mermaid from 'mermaid';
-import { MermaidRendererProps, ParticleAnimation, NodeEventData, EdgeEventData } from './types';
-import { MERMAID_CONFIG, DIAGRAM_ID } from './constants';
-import { enhanceSVG } from './svgUtils';
-import { createParticlesForPath, startParticleAnimation } from './particleUtils';
+import React, {
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+  useId,
+  useMemo,
+  forwardRef,
+  useImperativeHandle,
+} from 'react';
+import {
+  MermaidRendererProps,
+  MermaidVibesHandle,
+  ParticleConfig,
+  ParticleStyle,
+  RenderErrorInfo,
+  ZoomController,
+  ParticleLoop,
+  DiagramModel,
+  DiagramFocus,
+  AnimationQuality,
+  DiagramSnapshot,
+  DiagramTransition,
+  InteractionHandlers,
+  ActiveTooltip,
+  NodeImage,
+} from './types';
+import type { MermaidConfig } from 'mermaid';
+import { DIAGRAM_ID_PREFIX, PERFORMANCE_CONFIG, TRANSITION_CONFIG, ZOOM_CONFIG } from './constants';
+import { enhanceSVG, findNodeElement } from './svgUtils';
+import { renderDiagram, addActorImages } from './renderUtils';
+import { annotateDiagram } from './diagramModel';
+import { addNodeImages } from './imageUtils';
+import { setupInteractivity } from './interactionUtils';
+import { applySelection, isAdditive, setupSelection } from './selectionUtils';
+import { applyNodeStatus, countNodeStatuses, filterRunningEdges } from './statusUtils';
+import { setupTooltipTriggers, TooltipTriggers } from './tooltipUtils';
+import { applyFocus, filterFocusedEdges, getClickFocus, resolveFocus } from './focusUtils';
+import { describeConnections, describeDiagram, makeDiagramAccessible, setupKeyboardNavigation } from './accessibilityUtils';
+import { createParticleTimeline, startParticleAnimation, applyParticleStyle } from './particleUtils';
+import { startCanvasParticleAnimation } from './canvasParticleUtils';
+import { resolveAnimation, applyAnimationQuality, applyAnimationToParticleStyle } from './animationUtils';
+import { createFrameMonitor, getLowerQuality } from './performanceUtils';
+import { captureSnapshot, startMorphTransition } from './transitionUtils';
+import { toError, createRenderErrorInfo } from './errorUtils';
+import { resolveTheme, isAutoTheme } from './themeUtils';
+import { useMediaQuery } from './hooks';
+import { createZoomController } from './zoomUtils';
+import { ZoomControls } from './ZoomControls';
+import { StatusLegend } from './StatusLegend';
+import { Tooltip } from './Tooltip';
+import { exportAs, exportAsAnimation, exportAsPDF, toBlob, toDataURL } from './exportUtils';
+import { ErrorPanel } from './ErrorPanel';
 import { PRIMARY } from './theme';
 import './styles.css';
 
 /**
- * Initializes Mermaid.js with custom theme configuration
+ * Builds a diagram ID that is valid in CSS selectors from a React useId value
  */
-function initializeMermaid(): void {
-  mermaid.initialize(MERMAID_CONFIG);
+function createDiagramId(instanceId: string): string {
+  return `${DIAGRAM_ID_PREFIX}-${instanceId.replace(/[^a-zA-Z0-9_-]/g, '')}`;
 }
 
 /**
- * Preprocesses chart string to extract image references and clean for Mermaid
- * Returns cleaned chart and image mappings
+ * Starts particles along the given edges, replacing any already in the particle layer
+ * Particles are scheduled by the config's mode (sequential, parallel or flow) and drawn by its renderer.
+ * Loops started with the same startTime share one clock, so restarting doesn't rewind them.
  */
-function preprocessChart(chart: string): { cleanedChart: string; imageMappings: Map<string, string> } {
-  const imageMappings = new Map<string, string>();
-
-  // Extract and remove img: references from participant definitions
-  const cleanedChart = chart.replace(/participant\s+img:([^\s]+)\s+([^\n]+)/g, (match, imgPath, actorName) => {
-    const trimmedName = actorName.trim();
-    imageMappings.set(trimmedName, imgPath);
-    return `participant ${actorName}`;
-  });
-
-  return { cleanedChart, imageMappings };
-}
-
-/**
- * Adds images to actor boxes based on mappings
- */
-function addActorImages(svgElement: SVGSVGElement, imageMappings: Map<string, string>): void {
-  if (imageMappings.size === 0) {
-    return;
-  }
-
-  const allGroups = svgElement.querySelectorAll('g');
-
-  // Try to find actor groups by their content
-  const actorCandidates = Array.from(allGroups).filter(g => {
-    const hasRect = g.querySelector('rect') !== null;
-    const hasText = g.querySelector('text') !== null;
-    const className = g.getAttribute('class') || '';
-    return hasRect && hasText && (className.includes('actor') || g.querySelector('line'));
-  });
-
-  actorCandidates.forEach((actor) => {
-    // Look for text anywhere in the actor (not just direct children)
-    const textElement = actor.querySelector('text');
-    // Look for rect anywhere in the actor
-    const rect = actor.querySelector('rect');
-
-    if (!textElement || !rect) {
-      return;
-    }
-
-    const actorName = textElement.textContent?.trim() || '';
-    const imgPath = imageMappings.get(actorName);
-
-    if (imgPath) {
-      // Get the rect dimensions and position
-      const x = parseFloat(rect.getAttribute('x') || '0');
-      const y = parseFloat(rect.getAttribute('y') || '0');
-      const height = parseFloat(rect.getAttribute('height') || '0');
-
-      const logoSize = 48;
-      const padding = 20;
-      const imageX = x + padding;
-      const imageY = y + (height - logoSize) / 2;
-      const borderRadius = 8;
-
-      // Create a unique ID for this clip path
-      const clipPathId = `actor-logo-clip-${Math.random().toString(36).substr(2, 9)}`;
-
-      // Create clip path with rounded rectangle
-      const defs = svgElement.querySelector('defs') || svgElement.insertBefore(
-        document.createElementNS('http://www.w3.org/2000/svg', 'defs'),
-        svgElement.firstChild
-      );
-
-      const clipPath = document.createElementNS('http://www.w3.org/2000/svg', 'clipPath');
-      clipPath.setAttribute('id', clipPathId);
-
-      const clipRect = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
-      clipRect.setAttribute('x', imageX.toString());
-      clipRect.setAttribute('y', imageY.toString());
-      clipRect.setAttribute('width', logoSize.toString());
-      clipRect.setAttribute('height', logoSize.toString());
-      clipRect.setAttribute('rx', borderRadius.toString());
-      clipRect.setAttribute('ry', borderRadius.toString());
-
-      clipPath.appendChild(clipRect);
-      defs.appendChild(clipPath);
-
-      // Create image element
-      const image = document.createElementNS('http://www.w3.org/2000/svg', 'image');
-      image.setAttribute('href', imgPath);
-      image.setAttribute('x', imageX.toString());
-      image.setAttribute('y', imageY.toString());
-      image.setAttribute('width', logoSize.toString());
-      image.setAttribute('height', logoSize.toString());
-      image.setAttribute('class', 'actor-logo');
-      image.setAttribute('clip-path', `url(#${clipPathId})`);
-
-      // Adjust text position to make room for logo (tighter spacing)
-      const textX = parseFloat(textElement.getAttribute('x') || '0');
-      const textShift = logoSize + 4; // Logo width plus 4px gap
-      textElement.setAttribute('x', (textX + textShift / 2).toString());
-
-      // Insert the image into the actor group
-      actor.appendChild(image);
-    }
-  });
-}
-
-/**
- * Renders a Mermaid diagram from text syntax
- */
-async function renderDiagram(chart: string): Promise<{ svg: string; imageMappings: Map<string, string> }> {
-  try {
-    const { cleanedChart, imageMappings } = preprocessChart(chart);
-    const { svg } = await mermaid.render(DIAGRAM_ID, cleanedChart);
-    return { svg, imageMappings };
-  } catch (error) {
-    console.error('Mermaid rendering error:', error);
-    throw error;
+function startParticles(
+  edges: Element[],
+  particleGroup: SVGGElement,
+  particleStyle: ParticleStyle,
+  particleConfig: ParticleConfig,
+  model: DiagramModel | null,
+  startTime: number,
+  onFrame?: (time: number) => void
+): ParticleLoop {
+  particleGroup.replaceChildren();
+
+  const svgElement = particleGroup.ownerSVGElement;
+  if (particleConfig.renderer === 'canvas' && svgElement) {
+    return startCanvasParticleAnimation(svgElement, edges, particleStyle, startTime, particleConfig, model, onFrame);
   }
-}
 
-/**
- * Sets up particle animations for all edges in the SVG
- * Particles run sequentially, one completing before the next begins
- */
-function setupParticleAnimations(
-  svgElement: SVGSVGElement
-): () => void {
-  const { edges, particleGroup } = enhanceSVG(svgElement);
-  const animations: ParticleAnimation[] = [];
-
-  // Create particles sequentially - each starts after the previous one completes
-  let cumulativeStartTime = Date.now();
-
-  edges.forEach((edge) => {
-    const pathElement = edge as SVGPathElement;
-    const result = createParticlesForPath(
-      pathElement,
-      cumulativeStartTime,
-      particleGroup
-    );
-    animations.push(...result.animations);
-    cumulativeStartTime = result.nextStartTime;
-  });
+  const animations = createParticleTimeline(edges, particleGroup, particleStyle, startTime, particleConfig, model);
 
-  // Start the animation loop and return cleanup function
-  return startParticleAnimation(animations);
+  // Start the animation loop and return its controls
+  return startParticleAnimation(animations, onFrame);
 }
 
 /**
  * Main MermaidVibes Component
  */
-export const MermaidVibes: React.FC<MermaidRendererProps> = ({
+export const MermaidVibes = forwardRef<MermaidVibesHandle, MermaidRendererProps>(({
   chart,
   theme,
   className = '',
   disableAnimations = false,
   disableParticles = false,
+  animation,
+  respectReducedMotion = true,
+  adaptiveQuality = false,
+  transition = true,
+  zoomable = false,
+  initialSvg,
+  focus,
+  focusOnClick = false,
+  onFocusChange,
+  accessibleList = false,
+  selectable = false,
+  selectedNodeIds,
+  onSelectionChange,
+  nodeStatus,
+  statusLegend = true,
   onNodeClick,
   onNodeHover,
+  onNodeDoubleClick,
+  onNodeContextMenu,
+  onNodeLongPress,
   onEdgeClick,
   onEdgeHover,
-}) => {
+  onBackgroundClick,
+  onError,
+  onRenderStart,
+  onRenderComplete,
+  onPerformance,
+  renderError,
+  renderTooltip,
+}, ref) => {
+  const viewportRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const zoomRef = useRef<ZoomController | null>(null);
+  const particleLoopRef = useRef<ParticleLoop | null>(null);
+  const particleLayerRef = useRef<{ edges: Element[]; particleGroup: SVGGElement } | null>(null);
+  const pausedRef = useRef(false);
+  const highlightedNodeRef = useRef<string | null>(null);
+  const [animationsPaused, setAnimationsPaused] = useState(false);
+  const [renderNonce, setRenderNonce] = useState(0);
+  const diagramId = createDiagramId(useId());
   const [svgContent, setSvgContent] = useState<string>('');
-  const [imageMappings, setImageMappings] = useState<Map<string, string>>(new Map());
+  const [imageMappings, setImageMappings] = useState<Map<string, NodeImage>>(new Map());
+  const [diagramModel, setDiagramModel] = useState<DiagramModel | null>(null);
+  const [errorState, setErrorState] = useState<{ error: Error; info: RenderErrorInfo } | null>(null);
+
+  // Resolve the theme by value so inline theme objects don't trigger re-renders
+  const prefersDark = useMediaQuery('(prefers-color-scheme: dark)', isAutoTheme(theme));
+  const themeKey = JSON.stringify(theme ?? {});
+  const resolvedTheme = useMemo(() => resolveTheme(JSON.parse(themeKey), prefersDark), [themeKey, prefersDark]);
+
+  // Resolve animation options by value too; a custom easing function is compared by identity
+  const animationKey = JSON.stringify(animation ?? {});
+  const customEasing = typeof animation?.easing === 'function' ? animation.easing : undefined;
+  const resolvedAnimation = useMemo(
+    () => resolveAnimation({ ...JSON.parse(animationKey), ...(customEasing && { easing: customEasing }) }),
+    [animationKey, customEasing]
+  );
+
+  // Reduced motion turns all motion off; otherwise adaptive quality steps down on slow frames
+  const prefersReducedMotion = useMediaQuery('(prefers-reduced-motion: reduce)', respectReducedMotion);
+  const [adaptiveLevel, setAdaptiveLevel] = useState<AnimationQuality>('full');
+  const isAdaptive = adaptiveQuality !== false;
+  const minFps = (typeof adaptiveQuality === 'object' ? adaptiveQuality.minFps : undefined) ?? PERFORMANCE_CONFIG.minFps;
+  const quality: AnimationQuality = prefersReducedMotion ? 'static' : isAdaptive ? adaptiveLevel : 'full';
+  const isMotionOff = quality === 'static';
+  const effectiveAnimation = useMemo(
+    () => applyAnimationQuality(resolvedAnimation, quality),
+    [resolvedAnimation, quality]
+  );
+
+  // Morph between renders, unless motion is off
+  const transitionOptions = typeof transition === 'object' ? transition : {};
+  const isTransitionEnabled = transition !== false && !disableAnimations && !isMotionOff;
+  const transitionDuration = transitionOptions.duration ?? TRANSITION_CONFIG.duration;
+  const transitionEasing = transitionOptions.easing ?? TRANSITION_CONFIG.easing;
+  const snapshotRef = useRef<DiagramSnapshot | null>(null);
+  const transitionRef = useRef<DiagramTransition | null>(null);
+  const isTransitionEnabledRef = useRef(isTransitionEnabled);
+  useEffect(() => {
+    isTransitionEnabledRef.current = isTransitionEnabled;
+  }, [isTransitionEnabled]);
+
+  // Particles keep one clock across re-renders, so a new chart doesn't rewind them
+  const particleEpochRef = useRef<number | null>(null);
+
+  const particleStyle = useMemo(
+    () => applyAnimationToParticleStyle(resolvedTheme.particleStyle, resolvedAnimation),
+    [resolvedTheme.particleStyle, resolvedAnimation]
+  );
+  const { cssVariables } = resolvedTheme;
+
+  // Only re-render the diagram when the Mermaid config itself changes, not on color scheme switches
+  const mermaidConfigKey = JSON.stringify(resolvedTheme.mermaidConfig);
+  const mermaidConfig = useMemo(() => JSON.parse(mermaidConfigKey) as MermaidConfig, [mermaidConfigKey]);
+  const particleStyleRef = useRef(particleStyle);
+
+  // Lifecycle callbacks are read through a ref so inline handlers don't trigger re-renders
+  const lifecycleRef = useRef({ onError, onRenderStart, onRenderComplete, onPerformance });
+  useEffect(() => {
+    lifecycleRef.current = { onError, onRenderStart, onRenderComplete, onPerformance };
+  }, [onError, onRenderStart, onRenderComplete, onPerformance]);
+  const reportedSvgRef = useRef<string>('');
+  const renderStartRef = useRef(0);
+  const renderTimeRef = useRef(0);
+  const qualityRef = useRef(quality);
+  useEffect(() => {
+    qualityRef.current = quality;
+  }, [quality]);
+
+  // Focus is controlled when the prop is set, otherwise driven by clicks
+  const [uncontrolledFocus, setUncontrolledFocus] = useState<DiagramFocus | null>(null);
+  const isFocusControlled = focus !== undefined;
+  const activeFocus = isFocusControlled ? focus : uncontrolledFocus;
+  const focusKey = JSON.stringify(activeFocus);
+  const focusResult = useMemo(() => {
+    const parsedFocus = JSON.parse(focusKey) as DiagramFocus | null;
+    return diagramModel && parsedFocus !== null ? resolveFocus(diagramModel, parsedFocus) : null;
+  }, [diagramModel, focusKey]);
+  const focusStateRef = useRef({ activeFocus, isFocusControlled, onFocusChange });
+  useEffect(() => {
+    focusStateRef.current = { activeFocus, isFocusControlled, onFocusChange };
+  }, [activeFocus, isFocusControlled, onFocusChange]);
+
+  // Selection is controlled when `selectedNodeIds` is set, otherwise driven by clicks and the lasso
+  const [uncontrolledSelection, setUncontrolledSelection] = useState<string[]>([]);
+  const isSelectionControlled = selectedNodeIds !== undefined;
+  const activeSelection = isSelectionControlled ? selectedNodeIds : uncontrolledSelection;
+  const selectionKey = JSON.stringify(activeSelection);
+  const selectionStateRef = useRef({ activeSelection, isSelectionControlled, onSelectionChange });
+  useEffect(() => {
+    selectionStateRef.current = { activeSelection, isSelectionControlled, onSelectionChange };
+  }, [activeSelection, isSelectionControlled, onSelectionChange]);
+
+  // Live node status, applied as classes so updates don't re-render the diagram
+  // Particles only restart when the set of running nodes changes, or statuses start or stop being shown
+  const statusKey = JSON.stringify(nodeStatus ?? {});
+  const runningKey = JSON.stringify(
+    statusKey === '{}'
+      ? null
+      : Object.keys(nodeStatus ?? {}).filter((nodeId) => nodeStatus?.[nodeId] === 'running').sort()
+  );
+  const statusCounts = useMemo(
+    () => (diagramModel ? countNodeStatuses(diagramModel, JSON.parse(statusKey)) : []),
+    [diagramModel, statusKey]
+  );
+
+  // Text alternative for screen readers, referenced from the SVG with aria-describedby
+  const descriptionId = `${diagramId}-description`;
+  const description = useMemo(() => (diagramModel ? describeDiagram(diagramModel) : ''), [diagramModel]);
+  const connections = useMemo(
+    () => (accessibleList && diagramModel ? describeConnections(diagramModel) : []),
+    [accessibleList, diagramModel]
+  );
+  const hasNodeClick = Boolean(onNodeClick);
+  const hasEdgeClick = Boolean(onEdgeClick);
+  const clickableNodes = hasNodeClick || focusOnClick;
+  const clickableEdges = hasEdgeClick;
+
+  // Node and edge callbacks are read when an event fires, so inline handlers don't re-run the pipeline
+  const handlersRef = useRef<InteractionHandlers>({});
+  useEffect(() => {
+    handlersRef.current = {
+      onNodeClick,
+      onNodeHover,
+      onNodeDoubleClick,
+      onNodeContextMenu,
+      onNodeLongPress,
+      onEdgeClick,
+      onEdgeHover,
+      onBackgroundClick,
+    };
+  }, [onNodeClick, onNodeHover, onNodeDoubleClick, onNodeContextMenu, onNodeLongPress, onEdgeClick, onEdgeHover, onBackgroundClick]);
+
+  // Tooltips show custom content, or the tooltip text from the chart's click statements
+  const [tooltip, setTooltip] = useState<ActiveTooltip | null>(null);
+  const tooltipTriggersRef = useRef<TooltipTriggers | null>(null);
+  const tooltipId = `${diagramId}-tooltip`;
+  const hasChartTooltips = useMemo(
+    () => Array.from(diagramModel?.nodes.values() ?? []).some((node) => node.tooltip),
+    [diagramModel]
+  );
+  const hasTooltips = Boolean(renderTooltip) || hasChartTooltips;
+  const tooltipContent = tooltip ? (renderTooltip ? renderTooltip(tooltip.target) : tooltip.target.tooltip) : null;
+  const showTooltip = tooltip !== null && tooltipContent !== null && tooltipContent !== undefined
+    && tooltipContent !== false && tooltipContent !== '';
 
   // Initialize Mermaid and render diagram when chart changes
   useEffect(() => {
-    initializeMermaid();
+    let cancelled = false;
 
     const renderChart = async () => {
-      const { svg, imageMappings } = await renderDiagram(chart);
-      setSvgContent(svg);
-      setImageMappings(imageMappings);
+      renderStartRef.current = performance.now();
+      lifecycleRef.current.onRenderStart?.();
+
+      try {
+        const { svg, imageMappings, model } = await renderDiagram(chart, diagramId, mermaidConfig);
+        if (cancelled) return;
+
+        // Capture the current diagram, while it's still in the DOM, for the new one to morph from
+        transitionRef.current?.finish();
+        const currentSvg = containerRef.current?.querySelector('svg');
+        snapshotRef.current = isTransitionEnabledRef.current && currentSvg && reportedSvgRef.current
+          ? captureSnapshot(currentSvg)
+          : null;
+
+        setErrorState(null);
+        setSvgContent(svg);
+        setImageMappings(imageMappings);
+        setDiagramModel(model);
+      } catch (err) {
+        if (cancelled) return;
+        const error = toError(err);
+        const info = createRenderErrorInfo(err, chart);
+
+        if (lifecycleRef.current.onError) {
+          lifecycleRef.current.onError(error, info);
+        } else {
+          console.error('Mermaid rendering error:', error);
+        }
+
+        setErrorState({ error, info });
+        setSvgContent('');
+      }
     };
 
     renderChart();
-  }, [chart]);
-
-  // Setup event listeners for node and edge interactions
-  const setupInteractivity = useCallback(
-    (svgElement: SVGSVGElement) => {
-      // Helper to find the label for a node
-      const findNodeLabel = (element: Element): string | undefined => {
-        // If we clicked on a rect, image, or other shape, look in the parent group for text
-        const searchElement = element.tagName === 'rect' || element.tagName === 'circle' || element.tagName === 'path' || element.tagName === 'image'
-          ? element.parentElement
-          : element;
-
-        if (!searchElement) return undefined;
-
-        // Strategy 1: Look for text in common Mermaid label elements (descendants)
-        const labelSelectors = [
-          'text',           // Direct text element (actors, basic nodes)
-          '.nodeLabel',     // Flowchart node labels
-          '.label',         // Generic labels
-          'tspan',          // Text spans inside text elements
-          'foreignObject'   // HTML labels
-        ];
-
-        for (const selector of labelSelectors) {
-          const labelElement = searchElement.querySelector(selector);
-          if (labelElement) {
-            const text = (labelElement.textContent || '').trim();
-            // Return if we found meaningful text (not empty, not too long)
-            if (text && text.length > 0 && text.length < 200) {
-              return text;
-            }
-          }
-        }
 
-        // Strategy 2: Get all text content from search element as fallback
-        // Split by newline and take first non-empty line
-        const allText = (searchElement.textContent || '').trim();
-        const firstLine = allText.split('\n').find(line => line.trim().length > 0);
-        if (firstLine && firstLine.length < 200) {
-          return firstLine.trim();
-        }
+    // Ignore results from renders superseded by a newer chart
+    return () => {
+      cancelled = true;
+    };
+  }, [chart, diagramId, mermaidConfig, renderNonce]);
+
+  // Morph from the previous diagram before the new one is first painted
+  useLayoutEffect(() => {
+    const snapshot = snapshotRef.current;
+    snapshotRef.current = null;
+    const svgElement = containerRef.current?.querySelector('svg');
+    if (!snapshot || !svgElement || !diagramModel) return;
+
+    // Nodes are matched by id, which the effect below would only stamp after paint
+    annotateDiagram(svgElement, diagramModel, diagramId);
+    transitionRef.current = startMorphTransition(svgElement, snapshot, {
+      duration: transitionDuration,
+      easing: transitionEasing,
+    });
+  }, [svgContent, diagramModel, diagramId, transitionDuration, transitionEasing]);
+
+  // Stop a running transition on unmount
+  useEffect(() => () => transitionRef.current?.finish(), []);
+
+  // Each step of the enhancement pipeline below is idempotent and returns its own disposer,
+  // so a prop change re-applies only the steps that depend on it
+
+  // Stamp the node and edge ids used by events, highlighting and zooming, then add images
+  // Node images are found by those ids; sequence actors by their names
+  useEffect(() => {
+    const svgElement = containerRef.current?.querySelector('svg');
+    if (!svgElement || !svgContent || !diagramModel) return;
 
-        return undefined;
-      };
+    annotateDiagram(svgElement, diagramModel, diagramId);
+    return diagramModel.type === 'sequence'
+      ? addActorImages(svgElement, imageMappings, diagramId)
+      : addNodeImages(svgElement, imageMappings, diagramId);
+  }, [svgContent, imageMappings, diagramModel, diagramId]);
 
-      // Node interactions
-      if (onNodeClick || onNodeHover) {
-        const nodes = svgElement.querySelectorAll('.node, .actor, .stateGroup, .classGroup');
-
-        nodes.forEach((node) => {
-          const element = node as SVGElement;
-
-          if (onNodeClick) {
-            element.style.cursor = 'pointer';
-            element.addEventListener('click', (e) => {
-              e.stopPropagation(); // Prevent event bubbling that causes re-renders
-              const label = findNodeLabel(element);
-              const data: NodeEventData = {
-                element,
-                label,
-                bounds: element.getBoundingClientRect(),
-              };
-              onNodeClick(data);
-            });
-          }
+  // Node, edge and background events, delegated to the container
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    const svgElement = containerRef.current?.querySelector('svg');
+    if (!viewport || !svgElement || !svgContent || !diagramModel) return;
 
-          if (onNodeHover) {
-            element.addEventListener('mouseenter', () => {
-              const label = findNodeLabel(element);
-              const data: NodeEventData = {
-                element,
-                label,
-                bounds: element.getBoundingClientRect(),
-              };
-              onNodeHover(data);
-            });
-
-            element.addEventListener('mouseleave', () => {
-              onNodeHover(null);
-            });
-          }
-        });
-      }
+    return setupInteractivity(viewport, svgElement, diagramModel, () => handlersRef.current);
+  }, [svgContent, diagramModel, hasNodeClick, hasEdgeClick]);
 
-      // Edge interactions
-      if (onEdgeClick || onEdgeHover) {
-        const edges = svgElement.querySelectorAll(
-          '.flowchart-link, .messageLine0, .messageLine1, .edgePath path, path.edge'
-        );
-
-        // Helper to find the label for an edge
-        const findEdgeLabel = (element: Element): string | undefined => {
-          // Strategy 1: Look for label in the immediate parent element only
-          const immediateParent = element.parentElement;
-          if (immediateParent) {
-            // Check if the parent is a small group containing just this edge and its label
-            const labelsInParent = immediateParent.querySelectorAll('.edgeLabel text, .messageText');
-            const pathsInParent = immediateParent.querySelectorAll('path');
-
-            // If there's only one label and one path in this parent, they belong together
-            if (labelsInParent.length === 1 && pathsInParent.length === 1) {
-              const text = labelsInParent[0].textContent?.trim();
-              if (text) return text;
-            }
-          }
+  // Tooltips for hovered and focused nodes and edges
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    const svgElement = containerRef.current?.querySelector('svg');
+    if (!hasTooltips || !viewport || !svgElement || !svgContent || !diagramModel) return;
+
+    const triggers = setupTooltipTriggers(viewport, svgElement, diagramModel, setTooltip);
+    tooltipTriggersRef.current = triggers;
+    return () => {
+      triggers.destroy();
+      tooltipTriggersRef.current = null;
+    };
+  }, [hasTooltips, svgContent, diagramModel]);
 
-          // Strategy 2: Look for label in sibling elements at the same level
-          if (immediateParent) {
-            // Get all children of the parent
-            const siblings = Array.from(immediateParent.children);
-
-            // Find the index of the current element
-            const currentIndex = siblings.indexOf(element);
-
-            // Look for edge label siblings near this element (before or after)
-            for (let i = Math.max(0, currentIndex - 2); i < Math.min(siblings.length, currentIndex + 3); i++) {
-              const sibling = siblings[i];
-              if (sibling.classList.contains('edgeLabel')) {
-                const text = sibling.querySelector('text')?.textContent?.trim();
-                if (text) return text;
-              }
-            }
-          }
+  // Screen readers announce the tooltip along with the focused node or edge
+  useEffect(() => {
+    const focused = tooltip?.focused;
+    if (!focused || !showTooltip) return;
+
+    const describedBy = focused.getAttribute('aria-describedby');
+    focused.setAttribute('aria-describedby', describedBy ? `${describedBy} ${tooltipId}` : tooltipId);
+    return () => {
+      if (describedBy) {
+        focused.setAttribute('aria-describedby', describedBy);
+      } else {
+        focused.removeAttribute('aria-describedby');
+      }
+    };
+  }, [tooltip, showTooltip, tooltipId]);
 
-          // Strategy 3: Find the closest edge label by position
-          const edgeBBox = element.getBoundingClientRect();
-          const allLabels = svgElement.querySelectorAll('.edgeLabel, .messageText');
-
-          let closestLabel: Element | null = null;
-          let closestDistance = Infinity;
-
-          allLabels.forEach((label) => {
-            const labelBBox = label.getBoundingClientRect();
-            // Calculate distance between edge and label centers
-            const edgeCenterX = edgeBBox.left + edgeBBox.width / 2;
-            const edgeCenterY = edgeBBox.top + edgeBBox.height / 2;
-            const labelCenterX = labelBBox.left + labelBBox.width / 2;
-            const labelCenterY = labelBBox.top + labelBBox.height / 2;
-
-            const distance = Math.sqrt(
-              Math.pow(edgeCenterX - labelCenterX, 2) +
-              Math.pow(edgeCenterY - labelCenterY, 2)
-            );
-
-            if (distance < closestDistance && distance < 200) { // Within 200px
-              closestDistance = distance;
-              closestLabel = label;
-            }
-          });
-
-          if (closestLabel) {
-            const text = (closestLabel as Element).textContent?.trim();
-            if (text) return text;
-          }
+  // Tab stops, ARIA names and arrow-key navigation for keyboard and screen reader users
+  useEffect(() => {
+    const svgElement = containerRef.current?.querySelector('svg');
+    if (!svgElement || !svgContent || !diagramModel) return;
+
+    const restoreAttributes = makeDiagramAccessible(svgElement, diagramModel, {
+      descriptionId: description ? descriptionId : undefined,
+      clickableNodes,
+      clickableEdges,
+    });
+    const stopNavigation = setupKeyboardNavigation(svgElement, diagramModel);
+    return () => {
+      stopNavigation();
+      restoreAttributes();
+    };
+  }, [svgContent, diagramModel, description, descriptionId, clickableNodes, clickableEdges]);
 
-          return undefined;
-        };
-
-        // Handle edge path clicks
-        edges.forEach((edge) => {
-          const pathElement = edge as SVGPathElement;
-
-          if (onEdgeClick) {
-            pathElement.style.cursor = 'pointer';
-            pathElement.addEventListener('click', () => {
-              const label = findEdgeLabel(pathElement);
-              const data: EdgeEventData = {
-                element: pathElement,
-                label,
-              };
-              onEdgeClick(data);
-            });
-          }
+  // Enhance the SVG and add the particle layer unless animations or particles are disabled
+  useEffect(() => {
+    const svgElement = containerRef.current?.querySelector('svg');
+    if (!svgElement || !svgContent) return;
 
-          if (onEdgeHover) {
-            pathElement.addEventListener('mouseenter', () => {
-              const label = findEdgeLabel(pathElement);
-              const data: EdgeEventData = {
-                element: pathElement,
-                label,
-              };
-              onEdgeHover(data);
-            });
-
-            pathElement.addEventListener('mouseleave', () => {
-              onEdgeHover(null);
-            });
-          }
-        });
-
-        // Also handle edge label clicks
-        const edgeLabels = svgElement.querySelectorAll('.edgeLabel, .messageText');
-        edgeLabels.forEach((labelElement) => {
-          const label = labelElement.textContent?.trim();
-
-          if (onEdgeClick) {
-            (labelElement as HTMLElement).style.cursor = 'pointer';
-            labelElement.addEventListener('click', (e) => {
-              e.stopPropagation(); // Prevent bubbling to the path
-
-              // Find the associated path element
-              const parent = labelElement.closest('g');
-              const pathElement = parent?.querySelector('.flowchart-link, .messageLine0, .messageLine1, path') as SVGPathElement;
-
-              const data: EdgeEventData = {
-                element: pathElement || (labelElement as any),
-                label,
-              };
-              onEdgeClick(data);
-            });
-          }
+    const animatedElements = disableAnimations
+      ? Array.from(svgElement.querySelectorAll<SVGElement>('.animated-node, .animated-edge'))
+      : [];
+    animatedElements.forEach((el) => {
+      el.style.animation = 'none';
+    });
 
-          if (onEdgeHover) {
-            labelElement.addEventListener('mouseenter', (e) => {
-              const parent = labelElement.closest('g');
-              const pathElement = parent?.querySelector('.flowchart-link, .messageLine0, .messageLine1, path') as SVGPathElement;
-
-              const data: EdgeEventData = {
-                element: pathElement || (labelElement as any),
-                label,
-              };
-              onEdgeHover(data);
-            });
-
-            labelElement.addEventListener('mouseleave', () => {
-              onEdgeHover(null);
-            });
-          }
-        });
-      }
-    },
-    [onNodeClick, onNodeHover, onEdgeClick, onEdgeHover]
-  );
+    if (!disableParticles && !disableAnimations) {
+      const { edges, particleGroup } = enhanceSVG(svgElement);
+      particleLayerRef.current = { edges: Array.from(edges), particleGroup };
+    }
 
-  // Apply custom theme
-  const applyCustomTheme = useCallback(
-    (svgElement: SVGSVGElement) => {
-      if (!theme) return;
-
-      const styleElement = document.createElement('style');
-      let customStyles = '';
-
-      if (theme.primaryColor) {
-        customStyles += `
-          .animated-node { stroke: ${theme.primaryColor} !important; }
-          .animated-edge { stroke: ${theme.primaryColor} !important; }
-          .actor { stroke: ${theme.primaryColor} !important; }
-          .messageLine0, .messageLine1 { stroke: ${theme.primaryColor} !important; }
-        `;
-      }
+    return () => {
+      animatedElements.forEach((el) => el.style.removeProperty('animation'));
+      particleLayerRef.current?.particleGroup.remove();
+      particleLayerRef.current = null;
+    };
+  }, [svgContent, disableAnimations, disableParticles]);
 
-      if (theme.strokeWidth) {
-        customStyles += `
-          .animated-node { stroke-width: ${theme.strokeWidth} !important; }
-          .animated-edge { stroke-width: ${theme.strokeWidth} !important; }
-        `;
-      }
+  // Mark the selected nodes
+  useEffect(() => {
+    const svgElement = containerRef.current?.querySelector('svg');
+    if (!svgElement || !svgContent || !diagramModel) return;
 
-      if (theme.textColor) {
-        customStyles += `
-          .nodeLabel, .edgeLabel, .actor text, .messageText { fill: ${theme.textColor} !important; }
-        `;
-      }
+    applySelection(svgElement, JSON.parse(selectionKey));
+  }, [svgContent, diagramModel, selectionKey]);
 
-      if (theme.fontSize) {
-        customStyles += `
-          .nodeLabel, .edgeLabel text, .actor text { font-size: ${theme.fontSize}px !important; }
-        `;
-      }
+  // Mark node statuses and the edges into them; declared before the particle effect, which reads the marks
+  useEffect(() => {
+    const svgElement = containerRef.current?.querySelector('svg');
+    if (!svgElement || !svgContent || !diagramModel) return;
 
-      if (customStyles) {
-        styleElement.textContent = customStyles;
-        svgElement.appendChild(styleElement);
-      }
-    },
-    [theme]
-  );
+    applyNodeStatus(svgElement, diagramModel, JSON.parse(statusKey));
+    return () => applyNodeStatus(svgElement, diagramModel, {});
+  }, [svgContent, diagramModel, statusKey]);
 
-  // Set up animations and images after SVG is rendered
+  // Re-apply a highlight requested before this render, then report completion once per rendered chart
   useEffect(() => {
-    if (!containerRef.current || !svgContent) return;
+    const svgElement = containerRef.current?.querySelector('svg');
+    if (!svgElement || !svgContent || !diagramModel) return;
 
-    const svgElement = containerRef.current.querySelector('svg');
-    if (!svgElement) return;
+    if (highlightedNodeRef.current) {
+      findNodeElement(svgElement, highlightedNodeRef.current)?.classList.add('node-highlighted');
+    }
+
+    if (reportedSvgRef.current !== svgContent) {
+      reportedSvgRef.current = svgContent;
+      renderTimeRef.current = performance.now() - renderStartRef.current;
+      lifecycleRef.current.onRenderComplete?.(svgElement);
+      lifecycleRef.current.onPerformance?.({ renderTime: renderTimeRef.current, quality: qualityRef.current });
+    }
+  }, [svgContent, diagramModel]);
 
-    // Add actor images if there are any mappings
-    addActorImages(svgElement, imageMappings);
+  // Recolor particles in place when the theme changes without a new render (e.g. 'auto' mode)
+  // Declared before the particle effect so new particles pick up the latest style
+  useEffect(() => {
+    particleStyleRef.current = particleStyle;
+    const svgElement = containerRef.current?.querySelector('svg');
+    if (svgElement) {
+      applyParticleStyle(svgElement, particleStyle);
+    }
+  }, [particleStyle]);
 
-    // Apply custom theme
-    applyCustomTheme(svgElement);
+  // Apply the focus and run particles along the focused edges (or every edge without a focus),
+  // only those into running nodes while node statuses are shown
+  // Shares the particle layer's dependencies so it runs again whenever the layer is rebuilt
+  useEffect(() => {
+    const svgElement = containerRef.current?.querySelector('svg');
+    if (!svgElement || !svgContent) return;
 
-    // Setup interactivity
-    setupInteractivity(svgElement);
+    applyFocus(svgElement, focusResult);
 
-    // Disable animations if requested
-    if (disableAnimations) {
-      const animatedElements = svgElement.querySelectorAll('.animated-node, .animated-edge');
-      animatedElements.forEach((el) => {
-        (el as HTMLElement).style.animation = 'none';
-      });
+    const layer = particleLayerRef.current;
+    if (!layer) return;
+    if (isMotionOff) {
+      layer.particleGroup.replaceChildren();
+      return;
     }
 
-    // Setup particle animations unless disabled
-    let cleanup: (() => void) | undefined;
-    if (!disableParticles && !disableAnimations) {
-      cleanup = setupParticleAnimations(svgElement);
+    // Report frame rates, and step quality down after consecutive slow samples when adaptive
+    let slowSamples = 0;
+    let particleCount = 0;
+    const onFrame = createFrameMonitor((stats) => {
+      lifecycleRef.current.onPerformance?.({ renderTime: renderTimeRef.current, ...stats, particleCount, quality });
+      if (!isAdaptive) return;
+
+      slowSamples = stats.fps < minFps ? slowSamples + 1 : 0;
+      if (slowSamples >= PERFORMANCE_CONFIG.slowSamples) {
+        slowSamples = 0;
+        setAdaptiveLevel(getLowerQuality(quality));
+      }
+    });
+
+    particleEpochRef.current ??= Date.now();
+    const particleLoop = startParticles(
+      filterRunningEdges(filterFocusedEdges(svgElement, layer.edges), diagramModel, JSON.parse(runningKey)),
+      layer.particleGroup,
+      particleStyleRef.current,
+      effectiveAnimation.particleConfig,
+      diagramModel,
+      particleEpochRef.current,
+      onFrame
+    );
+    particleCount = particleLoop.particleCount;
+    if (pausedRef.current) {
+      particleLoop.pause();
     }
+    particleLoopRef.current = particleLoop;
+
+    // Cleanup animation loop on unmount, re-render or focus change
+    return () => {
+      particleLoop.stop();
+      particleLoopRef.current = null;
+    };
+  }, [
+    svgContent,
+    diagramModel,
+    disableAnimations,
+    disableParticles,
+    focusResult,
+    runningKey,
+    effectiveAnimation,
+    isMotionOff,
+    isAdaptive,
+    minFps,
+    quality,
+  ]);
+
+  // Focus on click: a node's chains, shift-click for the shortest path, background clears
+  // With selection on, modified clicks belong to the selection, so the shortest path moves to alt-click
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!focusOnClick || !container) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (selectable && isAdditive(event)) return;
+
+      const target = event.target as Element;
+      const nodeId = target.closest?.('[data-node-id]')?.getAttribute('data-node-id');
+      // Edge clicks leave the focus alone
+      if (!nodeId && target.closest?.('[data-edge-id]')) return;
+
+      const { activeFocus: current, isFocusControlled: isControlled, onFocusChange: notify } = focusStateRef.current;
+      const next = nodeId ? getClickFocus(current, nodeId, selectable ? event.altKey : event.shiftKey) : null;
+      if (JSON.stringify(next) === JSON.stringify(current)) return;
 
-    // Cleanup animation loop on unmount or re-render
-    return cleanup;
-  }, [svgContent, imageMappings, disableAnimations, disableParticles, applyCustomTheme, setupInteractivity]);
+      if (!isControlled) {
+        setUncontrolledFocus(next);
+      }
+      notify?.(next);
+    };
+
+    // Capture phase, since node click handlers stop propagation
+    container.addEventListener('click', handleClick, true);
+    return () => container.removeEventListener('click', handleClick, true);
+  }, [focusOnClick, selectable]);
+
+  // Pan and zoom, with wheel/pointer handlers only in zoomable mode
+  const zoomOptions = typeof zoomable === 'object' ? zoomable : {};
+  const isZoomable = zoomable !== false;
+  const minScale = zoomOptions.minScale ?? ZOOM_CONFIG.minScale;
+  const maxScale = zoomOptions.maxScale ?? ZOOM_CONFIG.maxScale;
+  const showZoomControls = isZoomable && zoomOptions.showControls !== false;
 
-  // Compute container styles
-  const containerStyles: React.CSSProperties = {
-    ...(theme?.backgroundColor && { background: theme.backgroundColor }),
-  };
+  useEffect(() => {
+    if (!viewportRef.current || !containerRef.current) return;
+
+    const controller = createZoomController(viewportRef.current, containerRef.current, isZoomable, {
+      ...ZOOM_CONFIG,
+      minScale,
+      maxScale,
+    });
+    zoomRef.current = controller;
+
+    return () => {
+      controller.destroy();
+      zoomRef.current = null;
+    };
+  }, [isZoomable, minScale, maxScale]);
+
+  // A new chart starts at its natural size
+  useEffect(() => {
+    zoomRef.current?.reset();
+  }, [svgContent]);
+
+  // Selection by click and lasso; a plain drag keeps panning zoomable diagrams, so the lasso needs a modifier there
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    const svgElement = containerRef.current?.querySelector('svg');
+    if (!selectable || !viewport || !svgElement || !svgContent) return;
+
+    return setupSelection(viewport, svgElement, {
+      getSelection: () => selectionStateRef.current.activeSelection,
+      onChange: (next) => {
+        const { activeSelection: current, isSelectionControlled: isControlled, onSelectionChange: notify } = selectionStateRef.current;
+        if (JSON.stringify(next) === JSON.stringify(current)) return;
+
+        if (!isControlled) {
+          setUncontrolledSelection(next);
+        }
+        notify?.(next);
+      },
+      requireModifier: isZoomable,
+    });
+  }, [selectable, svgContent, isZoomable]);
+
+  useImperativeHandle(
+    ref,
+    () => {
+      const getSvgElement = () => containerRef.current?.querySelector('svg') ?? null;
+      const requireSvgElement = () => {
+        const svgElement = getSvgElement();
+        if (!svgElement) {
+          throw new Error('Diagram has not been rendered yet');
+        }
+        return svgElement;
+      };
+
+      return {
+        getSvgElement,
+        exportAs: async (format, options) => exportAs(requireSvgElement(), format, options),
+        toBlob: async (format, options) => toBlob(requireSvgElement(), format, options),
+        toDataURL: async (format, options) => toDataURL(requireSvgElement(), format, options),
+        exportAsPDF: async (options) => exportAsPDF(requireSvgElement(), options),
+        exportAsAnimation: async (options) => exportAsAnimation(requireSvgElement(), options),
+        pauseAnimations: () => {
+          pausedRef.current = true;
+          particleLoopRef.current?.pause();
+          setAnimationsPaused(true);
+        },
+        resumeAnimations: () => {
+          pausedRef.current = false;
+          particleLoopRef.current?.resume();
+          setAnimationsPaused(false);
+        },
+        rerender: () => setRenderNonce((nonce) => nonce + 1),
+        highlightNode: (nodeId: string | null) => {
+          highlightedNodeRef.current = nodeId;
+          const svgElement = getSvgElement();
+          if (!svgElement) return;
+
+          svgElement.querySelectorAll('.node-highlighted').forEach((node) => node.classList.remove('node-highlighted'));
+          if (nodeId) {
+            findNodeElement(svgElement, nodeId)?.classList.add('node-highlighted');
+          }
+        },
+        fitToView: () => zoomRef.current?.fitToView(),
+        zoomTo: (nodeId: string) => {
+          const svgElement = containerRef.current?.querySelector('svg');
+          const node = svgElement ? findNodeElement(svgElement, nodeId) : null;
+          if (node) {
+            zoomRef.current?.zoomToElement(node);
+          }
+        },
+        resetZoom: () => zoomRef.current?.reset(),
+      };
+    },
+    []
+  );
+
+  // React replaces the markup whenever this object changes, so it only changes with the SVG
+  // The server-rendered SVG only stands in until the first client render, so a failed one doesn't bring it back
+  const hasError = errorState !== null;
+  const innerHtml = useMemo(
+    () => ({ __html: svgContent || (hasError ? '' : initialSvg ?? '') }),
+    [svgContent, initialSvg, hasError]
+  );
+
+  // Theme colors reach styles.css through CSS custom properties
+  // Without a theme prop the stylesheet defaults apply, so they can be overridden from CSS
+  const containerStyles = {
+    ...(theme ? cssVariables : {}),
+    ...effectiveAnimation.cssVariables,
+  } as React.CSSProperties;
 
   return (
     <div
-      className={`mermaid-container ${className} ${disableAnimations ? 'no-animations' : ''}`}
+      ref={viewportRef}
+      className={`mermaid-container ${className} ${disableAnimations ? 'no-animations' : ''} ${isZoomable ? 'zoomable' : ''} ${selectable ? 'selectable' : ''} ${animationsPaused ? 'animations-paused' : ''} ${isMotionOff ? 'no-motion' : ''} ${effectiveAnimation.className}`}
       style={containerStyles}
     >
+      {errorState && (
+        renderError
+          ? renderError(errorState.error, errorState.info)
+          : <ErrorPanel error={errorState.error} info={errorState.info} />
+      )}
       <div
         ref={containerRef}
         className="mermaid-renderer"
-        dangerouslySetInnerHTML={{ __html: svgContent }}
+        dangerouslySetInnerHTML={innerHtml}
       />
+      {description && (
+        <div id={descriptionId} className="mermaid-sr-only">
+          {description}
+        </div>
+      )}
+      {connections.length > 0 && (
+        <ul className="mermaid-sr-only" aria-label="Diagram connections">
+          {connections.map((sentence, index) => (
+            <li key={index}>{sentence}</li>
+          ))}
+        </ul>
+      )}
+      {showZoomControls && svgContent && (
+        <ZoomControls
+          onZoomIn={() => zoomRef.current?.zoomIn()}
+          onZoomOut={() => zoomRef.current?.zoomOut()}
+          onReset={() => zoomRef.current?.reset()}
+          onFit={() => zoomRef.current?.fitToView()}
+        />
+      )}
+      {statusLegend && svgContent && statusCounts.length > 0 && (
+        <StatusLegend counts={statusCounts} />
+      )}
+      {showTooltip && (
+        <Tooltip
+          id={tooltipId}
+          anchor={tooltip.anchor}
+          onMouseEnter={() => tooltipTriggersRef.current?.hold()}
+          onMouseLeave={() => tooltipTriggersRef.current?.release()}
+        >
+          {tooltipContent}
+        </Tooltip>
+      )}
     </div>
   );
-};
+});
+
+MermaidVibes.displayName = 'MermaidVibes';
 
 // Export types for external use
-export type { MermaidRendererProps, CustomTheme, NodeEventData, EdgeEventData } from './types';
+export type {
+  MermaidRendererProps,
+  MermaidVibesHandle,
+  ZoomOptions,
+  ExportFormat,
+  ExportOptions,
+  ExportBackground,
+  PdfExportOptions,
+  PdfPageSize,
+  AnimationExportOptions,
+  AnimationFormat,
+  CustomTheme,
+  ThemeName,
+  ThemePreset,
+  ThemePresetName,
+  NodeEventData,
+  EdgeEventData,
+  TooltipTarget,
+  NodeImage,
+  ImageShape,
+  ImagePosition,
+  IconSet,
+  DiagramModel,
+  DiagramNode,
+  DiagramEdge,
+  DiagramFocus,
+  FocusDirection,
+  NodeStatus,
+  AnimationOptions,
+  ParticleEasing,
+  ParticleMode,
+  ParticleRenderer,
+  AnimationQuality,
+  AdaptiveQualityOptions,
+  TransitionOptions,
+  PerformanceMetrics,
+  RenderErrorInfo,
+  MermaidVibesEditorProps,
+  EditorDiagnostic,
+} from './types';
+
+// Export theme preset registry
+export { registerThemePreset, getThemePreset } from './themeUtils';
+
+// Export icon set registry
+export { registerIconSet, getIconSet } from './imageUtils';
 
 // Export utility functions
-export { exportAsPNG, exportAsJPG, exportAsSVG } from './exportUtils';
+export {
+  exportAs,
+  exportAsPNG,
+  exportAsJPG,
+  exportAsSVG,
+  exportAsPDF,
+  exportAsAnimation,
+  toBlob,
+  toDataURL,
+} from './exportUtils';
@@ -0,0 +1,373 @@
+/**
+ * Node, edge and background events: clicks, hovers, double-clicks, context menus and long presses
+ *
+ * One set of delegated listeners on the container resolves each event to the node, edge
+ * or edge label it hit, so re-rendering never leaves listeners behind on old elements.
+ * Callbacks are read when an event fires, so new handler functions need no setup.
+ */
+
+import { DiagramModel, EdgeEventData, InteractionConfig, InteractionHandlers, NodeEventData } from './types';
+import { INTERACTION_CONFIG, MERMAID_SELECTORS } from './constants';
+import { findEdgePathElement, getEdgeForElement, getNodeForElement } from './diagramModel';
+
+/**
+ * Edge labels, which report the edge they belong to
+ */
+const EDGE_LABEL_SELECTOR = '.edgeLabel, .messageText';
+
+/**
+ * The interactive element an event hit
+ */
+type InteractionTarget =
+  | { type: 'node'; element: SVGElement }
+  | { type: 'edge'; element: SVGPathElement }
+  | { type: 'label'; element: Element };
+
+/**
+ * A node or edge an event hit, with its event data
+ */
+export type InteractionData =
+  | { type: 'node'; element: Element; data: NodeEventData }
+  | { type: 'edge'; element: Element; data: EdgeEventData };
+
+/**
+ * Finds the label for a node
+ */
+function findNodeLabel(element: Element): string | undefined {
+  // If we clicked on a rect, image, or other shape, look in the parent group for text
+  const searchElement = element.tagName === 'rect' || element.tagName === 'circle' || element.tagName === 'path' || element.tagName === 'image'
+    ? element.parentElement
+    : element;
+
+  if (!searchElement) return undefined;
+
+  // Strategy 1: Look for text in common Mermaid label elements (descendants)
+  const labelSelectors = [
+    'text',           // Direct text element (actors, basic nodes)
+    '.nodeLabel',     // Flowchart node labels
+    '.label',         // Generic labels
+    'tspan',          // Text spans inside text elements
+    'foreignObject'   // HTML labels
+  ];
+
+  for (const selector of labelSelectors) {
+    const labelElement = searchElement.querySelector(selector);
+    if (labelElement) {
+      const text = (labelElement.textContent || '').trim();
+      // Return if we found meaningful text (not empty, not too long)
+      if (text && text.length > 0 && text.length < 200) {
+        return text;
+      }
+    }
+  }
+
+  // Strategy 2: Get all text content from search element as fallback
+  // Split by newline and take first non-empty line
+  const allText = (searchElement.textContent || '').trim();
+  const firstLine = allText.split('\n').find(line => line.trim().length > 0);
+  if (firstLine && firstLine.length < 200) {
+    return firstLine.trim();
+  }
+
+  return undefined;
+}
+
+/**
+ * Finds the label for an edge
+ */
+function findEdgeLabel(svgElement: SVGSVGElement, element: Element): string | undefined {
+  // Strategy 1: Look for label in the immediate parent element only
+  const immediateParent = element.parentElement;
+  if (immediateParent) {
+    // Check if the parent is a small group containing just this edge and its label
+    const labelsInParent = immediateParent.querySelectorAll('.edgeLabel text, .messageText');
+    const pathsInParent = immediateParent.querySelectorAll('path');
+
+    // If there's only one label and one path in this parent, they belong together
+    if (labelsInParent.length === 1 && pathsInParent.length === 1) {
+      const text = labelsInParent[0].textContent?.trim();
+      if (text) return text;
+    }
+  }
+
+  // Strategy 2: Look for label in sibling elements at the same level
+  if (immediateParent) {
+    // Get all children of the parent
+    const siblings = Array.from(immediateParent.children);
+
+    // Find the index of the current element
+    const currentIndex = siblings.indexOf(element);
+
+    // Look for edge label siblings near this element (before or after)
+    for (let i = Math.max(0, currentIndex - 2); i < Math.min(siblings.length, currentIndex + 3); i++) {
+      const sibling = siblings[i];
+      if (sibling.classList.contains('edgeLabel')) {
+        const text = sibling.querySelector('text')?.textContent?.trim();
+        if (text) return text;
+      }
+    }
+  }
+
+  // Strategy 3: Find the closest edge label by position
+  const edgeBBox = element.getBoundingClientRect();
+  const allLabels = svgElement.querySelectorAll(EDGE_LABEL_SELECTOR);
+
+  let closestLabel: Element | null = null;
+  let closestDistance = Infinity;
+
+  allLabels.forEach((label) => {
+    const labelBBox = label.getBoundingClientRect();
+    // Calculate distance between edge and label centers
+    const edgeCenterX = edgeBBox.left + edgeBBox.width / 2;
+    const edgeCenterY = edgeBBox.top + edgeBBox.height / 2;
+    const labelCenterX = labelBBox.left + labelBBox.width / 2;
+    const labelCenterY = labelBBox.top + labelBBox.height / 2;
+
+    const distance = Math.sqrt(
+      Math.pow(edgeCenterX - labelCenterX, 2) +
+      Math.pow(edgeCenterY - labelCenterY, 2)
+    );
+
+    if (distance < closestDistance && distance < 200) { // Within 200px
+      closestDistance = distance;
+      closestLabel = label;
+    }
+  });
+
+  if (closestLabel) {
+    const text = (closestLabel as Element).textContent?.trim();
+    if (text) return text;
+  }
+
+  return undefined;
+}
+
+/**
+ * Builds the event data for a node
+ */
+function createNodeEventData(element: SVGElement, model: DiagramModel): NodeEventData {
+  const node = getNodeForElement(element, model);
+  return {
+    element,
+    id: node?.id,
+    label: findNodeLabel(element) ?? node?.label,
+    diagramType: model.type,
+    line: node?.line,
+    bounds: element.getBoundingClientRect(),
+  };
+}
+
+/**
+ * Builds the event data for an edge path, or for the label it was reached from
+ * Identified edges take their label from the source instead of the DOM
+ */
+function createEdgeEventData(
+  svgElement: SVGSVGElement,
+  model: DiagramModel,
+  pathElement: SVGPathElement,
+  source: Element = pathElement,
+  fallbackLabel?: string
+): EdgeEventData {
+  const edge = getEdgeForElement(source, model);
+  return {
+    element: pathElement,
+    id: edge?.id,
+    from: edge?.from,
+    to: edge?.to,
+    label: edge ? edge.label : fallbackLabel ?? findEdgeLabel(svgElement, pathElement),
+    diagramType: model.type,
+    line: edge?.line,
+  };
+}
+
+/**
+ * Finds the path an edge label belongs to
+ */
+function findLabelPath(svgElement: SVGSVGElement, model: DiagramModel, labelElement: Element): SVGPathElement {
+  const edge = getEdgeForElement(labelElement, model);
+  const pathElement = edge
+    ? findEdgePathElement(svgElement, edge.id)
+    : labelElement.closest('g')?.querySelector('.flowchart-link, .messageLine0, .messageLine1, path');
+  return (pathElement || labelElement) as SVGPathElement;
+}
+
+/**
+ * Resolves an event target to the label, edge or node it is part of, innermost first
+ */
+function resolveTarget(svgElement: SVGSVGElement, target: EventTarget | null): InteractionTarget | null {
+  if (!(target instanceof Element) || !svgElement.contains(target)) return null;
+
+  const label = target.closest(EDGE_LABEL_SELECTOR);
+  if (label) return { type: 'label', element: label };
+
+  const edge = target.closest(MERMAID_SELECTORS.interactiveEdges);
+  if (edge) return { type: 'edge', element: edge as SVGPathElement };
+
+  const node = target.closest(MERMAID_SELECTORS.interactiveNodes);
+  return node ? { type: 'node', element: node as SVGElement } : null;
+}
+
+/**
+ * Builds the event data for an edge target, reached from its path or its label
+ */
+function getEdgeData(svgElement: SVGSVGElement, model: DiagramModel, target: InteractionTarget): EdgeEventData {
+  if (target.type !== 'label') {
+    return createEdgeEventData(svgElement, model, target.element as SVGPathElement);
+  }
+  const label = target.element.textContent?.trim();
+  return createEdgeEventData(svgElement, model, findLabelPath(svgElement, model, target.element), target.element, label);
+}
+
+/**
+ * Resolves an event target to the node or edge it is part of
+ * `element` is the node, edge path or edge label that was hit.
+ */
+export function getInteractionData(
+  svgElement: SVGSVGElement,
+  model: DiagramModel,
+  eventTarget: EventTarget | null
+): InteractionData | null {
+  const target = resolveTarget(svgElement, eventTarget);
+  if (!target) return null;
+  return target.type === 'node'
+    ? { type: 'node', element: target.element, data: createNodeEventData(target.element, model) }
+    : { type: 'edge', element: target.element, data: getEdgeData(svgElement, model, target) };
+}
+
+/**
+ * Listens for node, edge and background events on the container
+ * Clickable elements get a pointer cursor if a click handler is set at setup.
+ * Returns a function that removes the listeners and cursors.
+ */
+export function setupInteractivity(
+  container: HTMLElement,
+  svgElement: SVGSVGElement,
+  model: DiagramModel,
+  getHandlers: () => InteractionHandlers,
+  config: InteractionConfig = INTERACTION_CONFIG
+): () => void {
+  const edgeData = (target: InteractionTarget) => getEdgeData(svgElement, model, target);
+
+  let isLongPressClick = false;
+  let longPress: { pointerId: number; x: number; y: number; timer: ReturnType<typeof setTimeout> } | null = null;
+  const cancelLongPress = () => {
+    if (longPress) clearTimeout(longPress.timer);
+    longPress = null;
+  };
+
+  // Anything that isn't a node, edge or the zoom controls is background
+  const isBackground = (target: EventTarget | null) =>
+    target instanceof Element && !target.closest('.mermaid-zoom-controls') && !resolveTarget(svgElement, target);
+
+  // Swallow the click that ends a long press, like the zoom controller does for pans
+  const handleLongPressClick = (event: MouseEvent) => {
+    if (!isLongPressClick) return;
+    isLongPressClick = false;
+    event.stopPropagation();
+    event.preventDefault();
+  };
+
+  const handleClick = (event: MouseEvent) => {
+    // Clicks that end a pan, lasso or long press are prevented
+    if (event.defaultPrevented) return;
+
+    const target = resolveTarget(svgElement, event.target);
+    const { onNodeClick, onEdgeClick, onBackgroundClick } = getHandlers();
+    if (!target) {
+      if (isBackground(event.target)) onBackgroundClick?.(event);
+      return;
+    }
+
+    if (target.type === 'node') {
+      if (!onNodeClick) return;
+      event.stopPropagation(); // Prevent event bubbling that causes re-renders
+      onNodeClick(createNodeEventData(target.element, model));
+    } else {
+      onEdgeClick?.(edgeData(target));
+    }
+  };
+
+  // mouseenter and mouseleave don't bubble, so entering and leaving are derived from mouseover and mouseout
+  const handleHover = (event: MouseEvent, isEntering: boolean) => {
+    const target = resolveTarget(svgElement, event.target);
+    if (!target || target.element === resolveTarget(svgElement, event.relatedTarget)?.element) return;
+    const { onNodeHover, onEdgeHover } = getHandlers();
+
+    if (target.type === 'node') {
+      onNodeHover?.(isEntering ? createNodeEventData(target.element, model) : null);
+    } else if (onEdgeHover) {
+      onEdgeHover(isEntering ? edgeData(target) : null);
+    }
+  };
+  const handleMouseOver = (event: MouseEvent) => handleHover(event, true);
+  const handleMouseOut = (event: MouseEvent) => handleHover(event, false);
+
+  const handleDoubleClick = (event: MouseEvent) => {
+    const target = resolveTarget(svgElement, event.target);
+    const { onNodeDoubleClick } = getHandlers();
+    if (target?.type !== 'node' || !onNodeDoubleClick) return;
+
+    event.stopPropagation(); // Captured, so the zoom controller never sees it and doesn't zoom in
+    onNodeDoubleClick(createNodeEventData(target.element, model));
+  };
+
+  const handleContextMenu = (event: MouseEvent) => {
+    const target = resolveTarget(svgElement, event.target);
+    if (target?.type === 'node') {
+      getHandlers().onNodeContextMenu?.(createNodeEventData(target.element, model), event);
+    }
+  };
+
+  // Long presses are timed from a touch on a node, and cancelled if the touch moves or ends first
+  const handlePointerDown = (event: PointerEvent) => {
+    cancelLongPress();
+    isLongPressClick = false;
+    const target = resolveTarget(svgElement, event.target);
+    if (event.pointerType !== 'touch' || target?.type !== 'node' || !getHandlers().onNodeLongPress) return;
+
+    const timer = setTimeout(() => {
+      longPress = null;
+      isLongPressClick = true;
+      getHandlers().onNodeLongPress?.(createNodeEventData(target.element, model));
+    }, config.longPressDelay);
+    longPress = { pointerId: event.pointerId, x: event.clientX, y: event.clientY, timer };
+  };
+
+  const handlePointerMove = (event: PointerEvent) => {
+    if (!longPress || event.pointerId !== longPress.pointerId) return;
+    if (Math.hypot(event.clientX - longPress.x, event.clientY - longPress.y) > config.longPressTolerance) {
+      cancelLongPress();
+    }
+  };
+
+  const { onNodeClick, onEdgeClick } = getHandlers();
+  const clickable = [
+    ...(onNodeClick ? Array.from(svgElement.querySelectorAll(MERMAID_SELECTORS.interactiveNodes)) : []),
+    ...(onEdgeClick ? Array.from(svgElement.querySelectorAll(`${MERMAID_SELECTORS.interactiveEdges}, ${EDGE_LABEL_SELECTOR}`)) : []),
+  ] as SVGElement[];
+  clickable.forEach((element) => {
+    element.style.cursor = 'pointer';
+  });
+
+  const listeners: Array<[string, EventListener]> = [
+    ['click', handleClick as EventListener],
+    ['mouseover', handleMouseOver as EventListener],
+    ['mouseout', handleMouseOut as EventListener],
+    ['contextmenu', handleContextMenu as EventListener],
+    ['pointerdown', handlePointerDown as EventListener],
+    ['pointermove', handlePointerMove as EventListener],
+    ['pointerup', cancelLongPress],
+    ['pointercancel', cancelLongPress],
+  ];
+  listeners.forEach(([type, listener]) => container.addEventListener(type, listener));
+  container.addEventListener('click', handleLongPressClick, true);
+  container.addEventListener('dblclick', handleDoubleClick, true);
+
+  return () => {
+    cancelLongPress();
+    listeners.forEach(([type, listener]) => container.removeEventListener(type, listener));
+    container.removeEventListener('click', handleLongPressClick, true);
+    container.removeEventListener('dblclick', handleDoubleClick, true);
+    clickable.forEach((element) => element.style.removeProperty('cursor'));
+  };
+}
@@ -0,0 +1,315 @@
+/**
+ * Approximate SVG layout for DOM shims such as jsdom that can't measure elements
+ *
+ * Mermaid sizes nodes with getBBox() and getComputedTextLength(). Without a layout
+ * engine these are missing or return zeros and the layout collapses. The estimates
+ * here use average glyph widths, which is close enough for static output.
+ */
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Marks a prototype that has already been patched
+ */
+const SHIMMED = Symbol.for('mermaid-vibes.layoutShims');
+
+const DEFAULT_FONT_SIZE = 16;
+const LINE_HEIGHT = 1.2;
+
+/**
+ * Approximate glyph advance in ems for a character
+ */
+function charWidth(char: string): number {
+  if (char === ' ') return 0.3;
+  if (/[il.,:;|!'`]/.test(char)) return 0.28;
+  if (/[mwMW@]/.test(char)) return 0.85;
+  if (/[A-Z]/.test(char)) return 0.68;
+  if (/[0-9]/.test(char)) return 0.55;
+  return 0.52;
+}
+
+/**
+ * Estimates the rendered width of a string
+ */
+function measureText(text: string, fontSize: number): number {
+  let width = 0;
+  for (const char of text) {
+    width += charWidth(char);
+  }
+  return width * fontSize;
+}
+
+/**
+ * Reads the font size from the element or its closest ancestor that sets one
+ */
+function getFontSize(element: Element): number {
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    const value = (current as SVGElement).style?.fontSize || current.getAttribute('font-size');
+    const size = value ? parseFloat(value) : NaN;
+    if (size > 0) return size;
+  }
+  return DEFAULT_FONT_SIZE;
+}
+
+const readNumber = (element: Element, name: string) => parseFloat(element.getAttribute(name) ?? '') || 0;
+
+/**
+ * Reads the translation of an element's transform attribute
+ */
+function getTranslation(element: Element): { x: number; y: number } {
+  const match = element.getAttribute('transform')?.match(/translate\(\s*(-?[\d.e]+)(?:[\s,]+(-?[\d.e]+))?\s*\)/);
+  return match ? { x: parseFloat(match[1]), y: parseFloat(match[2] ?? '0') } : { x: 0, y: 0 };
+}
+
+/**
+ * Returns the smallest box containing all points
+ */
+function boxFromPoints(points: Array<[number, number]>): Box | null {
+  if (points.length === 0) return null;
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+/**
+ * Collects the end and control points of a path, tracking relative commands
+ */
+function pathPoints(d: string): Array<[number, number]> {
+  const points: Array<[number, number]> = [];
+  const tokens = d.match(/[a-zA-Z]|-?(?:\d+\.?\d*|\.\d+)(?:e-?\d+)?/g) ?? [];
+  let command = '';
+  let cx = 0;
+  let cy = 0;
+  let startX = 0;
+  let startY = 0;
+  let i = 0;
+
+  const next = () => parseFloat(tokens[i++]);
+
+  while (i < tokens.length) {
+    if (/[a-zA-Z]/.test(tokens[i])) {
+      command = tokens[i++];
+      if (command === 'z' || command === 'Z') {
+        cx = startX;
+        cy = startY;
+        continue;
+      }
+    }
+
+    const relative = command === command.toLowerCase();
+    const ox = relative ? cx : 0;
+    const oy = relative ? cy : 0;
+
+    switch (command.toUpperCase()) {
+      case 'M':
+      case 'L':
+      case 'T':
+        cx = ox + next();
+        cy = oy + next();
+        if (command.toUpperCase() === 'M') {
+          startX = cx;
+          startY = cy;
+          // Further coordinate pairs after a moveto are linetos
+          command = relative ? 'l' : 'L';
+        }
+        break;
+      case 'H':
+        cx = ox + next();
+        break;
+      case 'V':
+        cy = oy + next();
+        break;
+      case 'C':
+        points.push([ox + next(), oy + next()], [ox + next(), oy + next()]);
+        cx = ox + next();
+        cy = oy + next();
+        break;
+      case 'S':
+      case 'Q':
+        points.push([ox + next(), oy + next()]);
+        cx = ox + next();
+        cy = oy + next();
+        break;
+      case 'A':
+        i += 5;
+        cx = ox + next();
+        cy = oy + next();
+        break;
+      default:
+        // Unknown command, skip the token to avoid looping forever
+        i++;
+        continue;
+    }
+
+    points.push([cx, cy]);
+  }
+
+  return points;
+}
+
+/**
+ * Estimates the box of a text or tspan element
+ * Tspans with their own x or dy start a new line, as Mermaid uses them for wrapping
+ */
+function textBox(element: Element): Box {
+  const fontSize = getFontSize(element);
+  const tspans = Array.from(element.querySelectorAll('tspan'));
+  const lineStarts = tspans.filter((tspan) => tspan.hasAttribute('x') || tspan.hasAttribute('dy'));
+  const lines = lineStarts.length > 1
+    ? lineStarts.map((tspan) => tspan.textContent ?? '')
+    : [element.textContent ?? ''];
+
+  const width = Math.max(...lines.map((line) => measureText(line, fontSize)));
+  const height = lines.length * fontSize * LINE_HEIGHT;
+
+  let x = readNumber(element, 'x');
+  const anchor = element.getAttribute('text-anchor') ?? element.closest('[text-anchor]')?.getAttribute('text-anchor');
+  if (anchor === 'middle') x -= width / 2;
+  if (anchor === 'end') x -= width;
+
+  // y is the baseline of the first line, unless the text is vertically centered on it
+  const baseline = element.getAttribute('dominant-baseline') ?? element.getAttribute('alignment-baseline');
+  const y = baseline === 'central' || baseline === 'middle'
+    ? readNumber(element, 'y') - height / 2
+    : readNumber(element, 'y') - fontSize * 0.8;
+
+  return { x, y, width, height };
+}
+
+/**
+ * Estimates an element's bounding box in its own user space
+ */
+function estimateBBox(element: Element): Box | null {
+  switch (element.tagName.toLowerCase()) {
+    case 'text':
+    case 'tspan':
+      return textBox(element);
+    case 'rect':
+    case 'image':
+    case 'use':
+    case 'foreignobject':
+      return {
+        x: readNumber(element, 'x'),
+        y: readNumber(element, 'y'),
+        width: readNumber(element, 'width'),
+        height: readNumber(element, 'height'),
+      };
+    case 'circle': {
+      const r = readNumber(element, 'r');
+      return { x: readNumber(element, 'cx') - r, y: readNumber(element, 'cy') - r, width: r * 2, height: r * 2 };
+    }
+    case 'ellipse': {
+      const rx = readNumber(element, 'rx');
+      const ry = readNumber(element, 'ry');
+      return { x: readNumber(element, 'cx') - rx, y: readNumber(element, 'cy') - ry, width: rx * 2, height: ry * 2 };
+    }
+    case 'line':
+      return boxFromPoints([
+        [readNumber(element, 'x1'), readNumber(element, 'y1')],
+        [readNumber(element, 'x2'), readNumber(element, 'y2')],
+      ]);
+    case 'polygon':
+    case 'polyline': {
+      const values = (element.getAttribute('points') ?? '').trim().split(/[\s,]+/).map(parseFloat);
+      const points: Array<[number, number]> = [];
+      for (let i = 0; i + 1 < values.length; i += 2) {
+        points.push([values[i], values[i + 1]]);
+      }
+      return boxFromPoints(points);
+    }
+    case 'path':
+      return boxFromPoints(pathPoints(element.getAttribute('d') ?? ''));
+    case 'style':
+    case 'defs':
+    case 'marker':
+    case 'clippath':
+    case 'title':
+    case 'desc':
+      return null;
+    default: {
+      // Containers: union of the children, each offset by its own translation
+      const points: Array<[number, number]> = [];
+      Array.from(element.children).forEach((child) => {
+        const box = estimateBBox(child);
+        if (!box) return;
+        const { x, y } = getTranslation(child);
+        points.push([box.x + x, box.y + y], [box.x + x + box.width, box.y + y + box.height]);
+      });
+      return boxFromPoints(points);
+    }
+  }
+}
+
+/**
+ * Returns true if the environment can't measure SVG text on its own
+ */
+function needsLayoutShims(win: Window & typeof globalThis): boolean {
+  const proto = win.SVGElement.prototype as Partial<SVGGraphicsElement>;
+  if (typeof proto.getBBox !== 'function') return true;
+
+  const svg = win.document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+  const text = win.document.createElementNS('http://www.w3.org/2000/svg', 'text');
+  text.textContent = 'M';
+  svg.appendChild(text);
+  win.document.body.appendChild(svg);
+
+  try {
+    return !(text.getBBox().width > 0);
+  } catch {
+    return true;
+  } finally {
+    svg.remove();
+  }
+}
+
+/**
+ * Patches SVG measurement methods with estimates when the DOM can't lay out SVG
+ * Does nothing in real browsers, and only patches once per window
+ */
+export function installLayoutShims(win: Window & typeof globalThis = window): void {
+  if (!win.SVGElement || (win.SVGElement.prototype as { [SHIMMED]?: boolean })[SHIMMED] || !needsLayoutShims(win)) {
+    return;
+  }
+
+  // Shims may implement these lower in the chain as stubs, so every level gets patched
+  const prototypes = [win.SVGElement, win.SVGGraphicsElement, win.SVGTextContentElement, win.SVGGeometryElement]
+    .filter(Boolean)
+    .map((constructor) => constructor.prototype);
+
+  const toRect = (box: Box | null) => {
+    const { x, y, width, height } = box ?? { x: 0, y: 0, width: 0, height: 0 };
+    return typeof win.DOMRect === 'function' ? new win.DOMRect(x, y, width, height) : { x, y, width, height };
+  };
+
+  const define = (name: string, value: (this: Element) => unknown) => {
+    prototypes.forEach((proto) => {
+      Object.defineProperty(proto, name, { configurable: true, writable: true, value });
+    });
+  };
+
+  define('getBBox', function () {
+    return toRect(estimateBBox(this));
+  });
+
+  define('getComputedTextLength', function () {
+    return measureText(this.textContent ?? '', getFontSize(this));
+  });
+
+  define('getTotalLength', function () {
+    const points = pathPoints(this.getAttribute('d') ?? '');
+    let length = 0;
+    for (let i = 1; i < points.length; i++) {
+      length += Math.hypot(points[i][0] - points[i - 1][0], points[i][1] - points[i - 1][1]);
+    }
+    return length;
+  });
+
+  (win.SVGElement.prototype as { [SHIMMED]?: boolean })[SHIMMED] = true;
+}
@@ -2,9 +2,51 @@
  * Utilities for creating and animating particles along arrow paths
  */
 
-import { ParticleAnimation, ParticleStyle } from './types';
+import {
+  DiagramEdge,
+  DiagramModel,
+  ParticleAnimation,
+  ParticleConfig,
+  ParticleEasing,
+  ParticleLoop,
+  ParticleStyle,
+  ParticleTrip,
+  SequenceTiming,
+} from './types';
 import { PARTICLE_CONFIG, PARTICLE_STYLE } from './constants';
 
+/**
+ * Settings each SVG's particles were created with, for animation export
+ */
+const particleSettings = new WeakMap<SVGSVGElement, ParticleSettings>();
+
+/**
+ * Config, diagram model and style a particle timeline was built from
+ */
+interface ParticleSettings {
+  config: ParticleConfig;
+  model: DiagramModel | null;
+  style: ParticleStyle;
+}
+
+/**
+ * Position along the path and opacity of a particle at a point in time
+ */
+interface ParticleState {
+  distance: number;
+  opacity: number;
+}
+
+/**
+ * An edge path scheduled on the particle timeline
+ */
+interface TimelineEdge {
+  path: SVGPathElement;
+  edgeId: string | null;
+  duration: number;
+  particleCount: number;
+}
+
 /**
  * Creates a single SVG circle element with specified attributes
  */
@@ -64,76 +106,329 @@ export function createParticle(
   return { outerGlow, core, innerGlow };
 }
 
+/**
+ * Restyles existing particles in place, e.g. when the color scheme changes
+ */
+export function applyParticleStyle(
+  svgElement: SVGSVGElement,
+  style: ParticleStyle = PARTICLE_STYLE
+): void {
+  const layers: Array<[string, ParticleStyle[keyof ParticleStyle]]> = [
+    ['.particle-outer-glow', style.outerGlow],
+    ['.edge-particle', style.core],
+    ['.particle-inner-glow', style.innerGlow],
+  ];
+
+  layers.forEach(([selector, layerStyle]) => {
+    svgElement.querySelectorAll(selector).forEach((circle) => {
+      circle.setAttribute('fill', layerStyle.fill);
+      circle.setAttribute('r', layerStyle.radius.toString());
+    });
+  });
+
+  // Canvas particles pick up the stored style on their next frame
+  const settings = particleSettings.get(svgElement);
+  if (settings) {
+    particleSettings.set(svgElement, { ...settings, style });
+  }
+}
+
+/**
+ * Reads the particle style from particles already rendered in an SVG
+ * Falls back to the stored (e.g. canvas) or default style for any layer that isn't present
+ */
+export function readParticleStyle(svgElement: SVGSVGElement): ParticleStyle {
+  const fallbackStyle = particleSettings.get(svgElement)?.style ?? PARTICLE_STYLE;
+  const readLayer = <T extends ParticleStyle[keyof ParticleStyle]>(selector: string, fallback: T): T => {
+    const circle = svgElement.querySelector(selector);
+    return {
+      ...fallback,
+      fill: circle?.getAttribute('fill') ?? fallback.fill,
+      radius: parseFloat(circle?.getAttribute('r') ?? '') || fallback.radius,
+    };
+  };
+
+  return {
+    outerGlow: readLayer('.particle-outer-glow', fallbackStyle.outerGlow),
+    core: readLayer('.edge-particle', fallbackStyle.core),
+    innerGlow: readLayer('.particle-inner-glow', fallbackStyle.innerGlow),
+  };
+}
+
+/**
+ * Returns the config, diagram model and style an SVG's particles were created with
+ */
+export function readParticleSettings(svgElement: SVGSVGElement): ParticleSettings {
+  return particleSettings.get(svgElement) ?? { config: PARTICLE_CONFIG, model: null, style: PARTICLE_STYLE };
+}
+
+/**
+ * Records the settings an SVG's particles were created with
+ */
+export function storeParticleSettings(svgElement: SVGSVGElement, settings: ParticleSettings): void {
+  particleSettings.set(svgElement, settings);
+}
+
 /**
  * Calculates animation duration based on path length
  */
-export function calculateDuration(pathLength: number): number {
-  const { minDuration, maxDuration, durationMultiplier } = PARTICLE_CONFIG;
+export function calculateDuration(pathLength: number, config: ParticleConfig = PARTICLE_CONFIG): number {
+  const { minDuration, maxDuration, durationMultiplier } = config;
   return Math.max(minDuration, Math.min(maxDuration, pathLength * durationMultiplier));
 }
 
 /**
- * Creates all particle animations for a given path
+ * Ease-in-out cubic easing function
+ * Provides smooth acceleration and deceleration
+ */
+function easeInOutCubic(t: number): number {
+  return t < 0.5
+    ? 4 * t * t * t
+    : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+
+/**
+ * Built-in easings by name
+ */
+const EASINGS: Record<Exclude<ParticleEasing, (progress: number) => number>, (t: number) => number> = {
+  linear: (t) => t,
+  'ease-in': (t) => t * t * t,
+  'ease-out': (t) => 1 - Math.pow(1 - t, 3),
+  'ease-in-out': easeInOutCubic,
+};
+
+/**
+ * Resolves an easing name to its function, falling back to ease-in-out for unknown names
+ */
+export function resolveEasing(easing: ParticleEasing): (t: number) => number {
+  return typeof easing === 'function' ? easing : EASINGS[easing] ?? easeInOutCubic;
+}
+
+/**
+ * Schedules the particle trips for a given path
  * For sequential animation, cumulativeStartTime should be the end time of the previous particle
  */
-export function createParticlesForPath(
+export function createParticleTripsForPath(
   path: SVGPathElement,
   cumulativeStartTime: number,
-  particleGroup: SVGGElement
-): { animations: ParticleAnimation[]; nextStartTime: number } {
-  const animations: ParticleAnimation[] = [];
+  config: ParticleConfig = PARTICLE_CONFIG,
+  particleCount: number = config.particleCount
+): { trips: ParticleTrip[]; nextStartTime: number } {
+  const trips: ParticleTrip[] = [];
   const pathLength = path.getTotalLength();
-  const duration = calculateDuration(pathLength);
-  const { particleCount } = PARTICLE_CONFIG;
+  const duration = calculateDuration(pathLength, config);
+  const { fadeIn, fadeOut } = config;
+  const easing = resolveEasing(config.easing);
 
   for (let i = 0; i < particleCount; i++) {
-    const { outerGlow, core, innerGlow } = createParticle(particleGroup);
+    // Extra particles follow the first as a train spread over the first half of the trip
+    const offset = particleCount > 1 ? (i / particleCount) * 0.5 : 0;
 
-    // Track the main particle (core) animation
-    animations.push({
-      element: core,
-      glowElement: innerGlow,
+    trips.push({
       path,
       pathLength,
       duration,
-      offset: 0, // No offset for sequential animation
-      startTime: cumulativeStartTime,
-    });
-
-    // Track the outer glow animation (follows the same path)
-    animations.push({
-      element: outerGlow,
-      glowElement: outerGlow, // Dummy reference
-      path,
-      pathLength,
-      duration,
-      offset: 0, // No offset for sequential animation
-      startTime: cumulativeStartTime,
+      offset,
+      startTime: cumulativeStartTime + offset * duration,
+      easing,
+      fadeIn,
+      fadeOut,
     });
   }
 
   // Return the next start time (current start + duration)
   const nextStartTime = cumulativeStartTime + duration;
-  return { animations, nextStartTime };
+  return { trips, nextStartTime };
 }
 
 /**
- * Ease-in-out cubic easing function
- * Provides smooth acceleration and deceleration
+ * Creates SVG circles for scheduled trips, as core/outer glow animation pairs
  */
-function easeInOutCubic(t: number): number {
-  return t < 0.5
-    ? 4 * t * t * t
-    : 1 - Math.pow(-2 * t + 2, 3) / 2;
+function createParticleAnimations(
+  trips: ParticleTrip[],
+  particleGroup: SVGGElement,
+  style: ParticleStyle
+): ParticleAnimation[] {
+  return trips.flatMap((trip) => {
+    const { outerGlow, core, innerGlow } = createParticle(particleGroup, style);
+    return [
+      // Main particle (core), carrying the inner glow along
+      { ...trip, element: core, glowElement: innerGlow },
+      // Outer glow follows the same path
+      { ...trip, element: outerGlow, glowElement: outerGlow },
+    ];
+  });
+}
+
+/**
+ * Creates all particle animations for a given path
+ * For sequential animation, cumulativeStartTime should be the end time of the previous particle
+ */
+export function createParticlesForPath(
+  path: SVGPathElement,
+  cumulativeStartTime: number,
+  particleGroup: SVGGElement,
+  style: ParticleStyle = PARTICLE_STYLE,
+  config: ParticleConfig = PARTICLE_CONFIG,
+  particleCount: number = config.particleCount
+): { animations: ParticleAnimation[]; nextStartTime: number } {
+  const { trips, nextStartTime } = createParticleTripsForPath(path, cumulativeStartTime, config, particleCount);
+  return { animations: createParticleAnimations(trips, particleGroup, style), nextStartTime };
+}
+
+/**
+ * Start times for flow mode, relative to the start of the sequence
+ * Sequence messages run in order. Other diagrams start at source nodes and fan out,
+ * with each node's outgoing edges waiting for all of its incoming edges to finish.
+ */
+function getFlowStartTimes(model: DiagramModel, durations: Map<string, number>): Map<string, number> {
+  const starts = new Map<string, number>();
+  const edges = Array.from(model.edges.values()).filter((edge) => durations.has(edge.id));
+
+  if (model.type === 'sequence') {
+    let time = 0;
+    edges.forEach((edge) => {
+      starts.set(edge.id, time);
+      time += durations.get(edge.id)!;
+    });
+    return starts;
+  }
+
+  const outgoing = new Map<string, DiagramEdge[]>();
+  const targets = new Set<string>();
+  const nodeIds = new Set<string>();
+  edges.forEach((edge) => {
+    outgoing.set(edge.from, [...(outgoing.get(edge.from) ?? []), edge]);
+    targets.add(edge.to);
+    nodeIds.add(edge.from).add(edge.to);
+  });
+
+  // Edges that close a cycle don't hold up their target, or the cycle would never start
+  const backEdges = new Set<string>();
+  const visitState = new Map<string, 'active' | 'done'>();
+  const visit = (nodeId: string) => {
+    visitState.set(nodeId, 'active');
+    outgoing.get(nodeId)?.forEach((edge) => {
+      const state = visitState.get(edge.to);
+      if (state === 'active') {
+        backEdges.add(edge.id);
+      } else if (!state) {
+        visit(edge.to);
+      }
+    });
+    visitState.set(nodeId, 'done');
+  };
+  const sources = Array.from(nodeIds).filter((nodeId) => !targets.has(nodeId));
+  [...sources, ...nodeIds].forEach((nodeId) => {
+    if (!visitState.has(nodeId)) visit(nodeId);
+  });
+
+  // Walk the remaining DAG in topological order, tracking when each node's last incoming edge ends
+  const pending = new Map<string, number>();
+  edges.forEach((edge) => {
+    if (!backEdges.has(edge.id)) pending.set(edge.to, (pending.get(edge.to) ?? 0) + 1);
+  });
+  const ready = new Map<string, number>();
+  const queue = Array.from(nodeIds).filter((nodeId) => !pending.get(nodeId));
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    const time = ready.get(nodeId) ?? 0;
+
+    outgoing.get(nodeId)?.forEach((edge) => {
+      starts.set(edge.id, time);
+      if (backEdges.has(edge.id)) return;
+
+      ready.set(edge.to, Math.max(ready.get(edge.to) ?? 0, time + durations.get(edge.id)!));
+      const remaining = pending.get(edge.to)! - 1;
+      pending.set(edge.to, remaining);
+      if (remaining === 0) queue.push(edge.to);
+    });
+  }
+
+  return starts;
+}
+
+/**
+ * Start time of each edge relative to the start of the sequence, for the config's particle mode
+ * In flow mode, edges missing from the diagram model start with the first particles
+ */
+function getEdgeStartTimes(edges: TimelineEdge[], config: ParticleConfig, model: DiagramModel | null): number[] {
+  if (config.mode === 'parallel') {
+    return edges.map(() => 0);
+  }
+
+  if (config.mode === 'flow' && model && model.edges.size > 0) {
+    const durations = new Map<string, number>();
+    edges.forEach(({ edgeId, duration }) => {
+      if (edgeId) durations.set(edgeId, duration);
+    });
+    const starts = getFlowStartTimes(model, durations);
+    return edges.map(({ edgeId }) => (edgeId ? starts.get(edgeId) : undefined) ?? 0);
+  }
+
+  // Sequential: each edge starts after the previous one completes, skipping edges without particles
+  let time = 0;
+  return edges.map(({ duration, particleCount }) => {
+    const start = time;
+    if (particleCount > 0) time += duration;
+    return start;
+  });
+}
+
+/**
+ * Schedules particle trips for every edge by the config's particle mode
+ * Edge weights scale how many particles each edge gets
+ */
+export function createParticleTrips(
+  edges: ArrayLike<Element>,
+  startTime: number = 0,
+  config: ParticleConfig = PARTICLE_CONFIG,
+  model: DiagramModel | null = null
+): ParticleTrip[] {
+  const timelineEdges: TimelineEdge[] = Array.from(edges).map((edge) => {
+    const path = edge as SVGPathElement;
+    const edgeId = edge.getAttribute('data-edge-id');
+    const weight = edgeId ? config.edgeWeights?.[edgeId] ?? 1 : 1;
+    return {
+      path,
+      edgeId,
+      duration: calculateDuration(path.getTotalLength(), config),
+      particleCount: Math.max(0, Math.round(config.particleCount * weight)),
+    };
+  });
+  const startTimes = getEdgeStartTimes(timelineEdges, config, model);
+
+  return timelineEdges.flatMap(({ path, particleCount }, index) =>
+    createParticleTripsForPath(path, startTime + startTimes[index], config, particleCount).trips
+  );
+}
+
+/**
+ * Creates particles for every edge, scheduled by the config's particle mode
+ */
+export function createParticleTimeline(
+  edges: ArrayLike<Element>,
+  particleGroup: SVGGElement,
+  style: ParticleStyle = PARTICLE_STYLE,
+  startTime: number = 0,
+  config: ParticleConfig = PARTICLE_CONFIG,
+  model: DiagramModel | null = null
+): ParticleAnimation[] {
+  if (particleGroup.ownerSVGElement) {
+    storeParticleSettings(particleGroup.ownerSVGElement, { config, model, style });
+  }
+
+  return createParticleAnimations(createParticleTrips(edges, startTime, config, model), particleGroup, style);
 }
 
 /**
  * Calculate opacity based on progress for fade in/out effect
- * Fades in from 0-15%, full opacity 15-85%, fades out 85-100%
+ * By default fades in from 0-15%, full opacity 15-85%, fades out 85-100%
  */
-function calculateOpacity(progress: number): number {
-  const fadeInEnd = 0.15;
-  const fadeOutStart = 0.85;
+function calculateOpacity(progress: number, fadeIn: number, fadeOut: number): number {
+  const fadeInEnd = fadeIn;
+  const fadeOutStart = 1 - fadeOut;
 
   if (progress < fadeInEnd) {
     // Fade in
@@ -148,28 +443,53 @@ function calculateOpacity(progress: number): number {
 }
 
 /**
- * Updates the position of a single particle based on elapsed time
- * For sequential animation, particles only show when it's their turn in the sequence
+ * Computes where along its path a particle is at a point in time, and how visible it is
+ * For sequential animation, particles only show when it's their turn in the sequence (null otherwise)
  */
-export function updateParticlePosition(
-  animation: ParticleAnimation,
+export function getParticleState(
+  trip: ParticleTrip,
   currentTime: number,
-  isCore: boolean,
   totalSequenceDuration: number,
   sequenceStartTime: number
-): void {
+): ParticleState | null {
   // Calculate where we are in the full sequence cycle
   const timeSinceSequenceStart = currentTime - sequenceStartTime;
   const cycleTime = timeSinceSequenceStart % totalSequenceDuration;
 
   // Calculate when this particle should be active in the sequence
-  const particleStartInSequence = animation.startTime - sequenceStartTime;
-  const particleEndInSequence = particleStartInSequence + animation.duration;
+  const particleStartInSequence = trip.startTime - sequenceStartTime;
+  const particleEndInSequence = particleStartInSequence + trip.duration;
 
   // Check if this particle should be animating right now
-  const isInActiveWindow = cycleTime >= particleStartInSequence && cycleTime < particleEndInSequence;
+  if (cycleTime < particleStartInSequence || cycleTime >= particleEndInSequence) {
+    return null;
+  }
+
+  // Calculate progress within this particle's animation
+  const progressInParticle = (cycleTime - particleStartInSequence) / trip.duration;
 
-  if (!isInActiveWindow) {
+  return {
+    // Apply easing for smooth motion
+    distance: trip.easing(progressInParticle) * trip.pathLength,
+    // Calculate opacity for fade in/out (use raw progress, not eased)
+    opacity: calculateOpacity(progressInParticle, trip.fadeIn, trip.fadeOut),
+  };
+}
+
+/**
+ * Updates the position of a single particle based on elapsed time
+ * For sequential animation, particles only show when it's their turn in the sequence
+ */
+export function updateParticlePosition(
+  animation: ParticleAnimation,
+  currentTime: number,
+  isCore: boolean,
+  totalSequenceDuration: number,
+  sequenceStartTime: number
+): void {
+  const state = getParticleState(animation, currentTime, totalSequenceDuration, sequenceStartTime);
+
+  if (!state) {
     // Hide the particle when it's not active
     animation.element.setAttribute('opacity', '0');
     if (isCore && animation.glowElement !== animation.element) {
@@ -178,15 +498,7 @@ export function updateParticlePosition(
     return;
   }
 
-  // Calculate progress within this particle's animation
-  const progressInParticle = (cycleTime - particleStartInSequence) / animation.duration;
-
-  // Apply easing for smooth motion
-  const easedProgress = easeInOutCubic(progressInParticle);
-  const distance = easedProgress * animation.pathLength;
-
-  // Calculate opacity for fade in/out (use raw progress, not eased)
-  const opacity = calculateOpacity(progressInParticle);
+  const { distance, opacity } = state;
 
   try {
     const point = animation.path.getPointAtLength(distance);
@@ -206,48 +518,97 @@ export function updateParticlePosition(
 }
 
 /**
- * Creates and starts the main animation loop for all particles
- * Particles animate sequentially, looping through the full sequence
+ * Calculates when the particle sequence starts and how long one full cycle lasts
  */
-export function startParticleAnimation(
-  animations: ParticleAnimation[]
-): () => void {
-  if (animations.length === 0) return () => {};
-
-  let animationFrameId: number;
+export function getSequenceTiming(trips: ParticleTrip[]): SequenceTiming {
+  if (trips.length === 0) {
+    return { sequenceStartTime: 0, totalSequenceDuration: 0 };
+  }
 
-  // Calculate total sequence duration
-  // Find the latest end time (startTime + duration) among all animations
-  const sequenceStartTime = animations[0].startTime;
+  // Find the latest end time (startTime + duration) among all trips
+  const sequenceStartTime = Math.min(...trips.map((trip) => trip.startTime));
   let totalSequenceDuration = 0;
 
-  // Since particles come in pairs (core and outer glow), we only need to check even indices
-  for (let i = 0; i < animations.length; i += 2) {
-    const anim = animations[i];
-    const endTime = anim.startTime + anim.duration - sequenceStartTime;
+  trips.forEach((trip) => {
+    const endTime = trip.startTime + trip.duration - sequenceStartTime;
     if (endTime > totalSequenceDuration) {
       totalSequenceDuration = endTime;
     }
+  });
+
+  return { sequenceStartTime, totalSequenceDuration };
+}
+
+/**
+ * Positions every particle for a point in time relative to the start of the sequence
+ * Used by the live loop and to step the timeline frame by frame for animation export
+ */
+export function renderParticleFrame(
+  animations: ParticleAnimation[],
+  elapsed: number,
+  timing: SequenceTiming
+): void {
+  if (timing.totalSequenceDuration <= 0) return;
+
+  const currentTime = timing.sequenceStartTime + elapsed;
+  animations.forEach((anim, index) => {
+    // Every even index is a core particle, odd indices are outer glows
+    const isCore = index % 2 === 0;
+    updateParticlePosition(anim, currentTime, isCore, timing.totalSequenceDuration, timing.sequenceStartTime);
+  });
+}
+
+/**
+ * Creates and starts the main animation loop for all particles
+ * Particles animate sequentially, looping through the full sequence
+ * onFrame is called with a high-resolution timestamp on every frame, for frame rate measurement
+ */
+export function startParticleAnimation(
+  animations: ParticleAnimation[],
+  onFrame?: (time: number) => void
+): ParticleLoop {
+  if (animations.length === 0) {
+    return { stop: () => {}, pause: () => {}, resume: () => {}, particleCount: 0 };
   }
 
-  const animate = () => {
-    const currentTime = Date.now();
+  let animationFrameId: number | undefined;
 
-    animations.forEach((anim, index) => {
-      // Every even index is a core particle, odd indices are outer glows
-      const isCore = index % 2 === 0;
-      updateParticlePosition(anim, currentTime, isCore, totalSequenceDuration, sequenceStartTime);
-    });
+  // Time spent paused is subtracted so particles resume where they stopped
+  let pausedAt: number | null = null;
+  let pausedTotal = 0;
+
+  const timing = getSequenceTiming(animations);
 
+  const animate = () => {
+    const currentTime = Date.now() - pausedTotal;
+    renderParticleFrame(animations, currentTime - timing.sequenceStartTime, timing);
+    onFrame?.(performance.now());
     animationFrameId = requestAnimationFrame(animate);
   };
 
-  animate();
-
-  // Return cleanup function
-  return () => {
+  const cancel = () => {
     if (animationFrameId) {
       cancelAnimationFrame(animationFrameId);
+      animationFrameId = undefined;
     }
   };
+
+  animate();
+
+  return {
+    stop: cancel,
+    // Core and outer glow are tracked separately
+    particleCount: animations.length / 2,
+    pause: () => {
+      if (pausedAt !== null) return;
+      pausedAt = Date.now();
+      cancel();
+    },
+    resume: () => {
+      if (pausedAt === null) return;
+      pausedTotal += Date.now() - pausedAt;
+      pausedAt = null;
+      animate();
+    },
+  };
 }
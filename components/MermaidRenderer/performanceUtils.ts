@@ -0,0 +1,64 @@
+/**
+ * Utilities for measuring particle loop frame rates and stepping animation quality down
+ */
+
+import { AnimationQuality, FrameStats } from './types';
+import { PERFORMANCE_CONFIG } from './constants';
+
+/**
+ * Quality levels from best to cheapest
+ */
+const QUALITY_LEVELS: AnimationQuality[] = ['full', 'reduced', 'minimal', 'static'];
+
+/**
+ * Returns the next cheaper quality level, or the same level if it's already the cheapest
+ */
+export function getLowerQuality(quality: AnimationQuality): AnimationQuality {
+  const index = QUALITY_LEVELS.indexOf(quality);
+  return QUALITY_LEVELS[Math.min(QUALITY_LEVELS.length - 1, index + 1)];
+}
+
+/**
+ * Creates a frame callback that reports frame stats once per sample window
+ * Gaps longer than maxFrameGap (paused loop, hidden tab) start a new window instead of counting as slow frames
+ */
+export function createFrameMonitor(
+  onSample: (stats: FrameStats) => void,
+  sampleWindow: number = PERFORMANCE_CONFIG.sampleWindow
+): (time: number) => void {
+  let windowStart = 0;
+  let lastFrame: number | null = null;
+  let frames = 0;
+  let totalFrameTime = 0;
+  let maxFrameTime = 0;
+
+  const startWindow = (time: number) => {
+    windowStart = time;
+    frames = 0;
+    totalFrameTime = 0;
+    maxFrameTime = 0;
+  };
+
+  return (time: number) => {
+    const frameTime = lastFrame === null ? Infinity : time - lastFrame;
+    lastFrame = time;
+
+    if (frameTime > PERFORMANCE_CONFIG.maxFrameGap) {
+      startWindow(time);
+      return;
+    }
+
+    frames++;
+    totalFrameTime += frameTime;
+    maxFrameTime = Math.max(maxFrameTime, frameTime);
+
+    if (time - windowStart >= sampleWindow && totalFrameTime > 0) {
+      onSample({
+        fps: (frames * 1000) / totalFrameTime,
+        frameTime: totalFrameTime / frames,
+        maxFrameTime,
+      });
+      startWindow(time);
+    }
+  };
+}
@@ -0,0 +1,212 @@
+/**
+ * Mermaid rendering pipeline shared by the MermaidVibes component and the server renderer
+ */
+
+import mermaid from 'mermaid';
+import type { MermaidConfig } from 'mermaid';
+import { DiagramModel, EditorDiagnostic, NodeImage } from './types';
+import { MERMAID_CONFIG } from './constants';
+import { scopeSvgIds } from './svgUtils';
+import { buildDiagramModel } from './diagramModel';
+import { placeImage, readImageToken } from './imageUtils';
+
+/**
+ * Initializes Mermaid.js with custom theme configuration
+ */
+function initializeMermaid(config: MermaidConfig = MERMAID_CONFIG): void {
+  mermaid.initialize(config);
+}
+
+/**
+ * Tail of the render queue shared by all component instances.
+ * Mermaid's configuration is global, so initialize + render must run
+ * as one uninterrupted unit per diagram.
+ */
+let renderQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs a render task after all previously queued tasks have settled
+ */
+function enqueueRender<T>(task: () => Promise<T>): Promise<T> {
+  const result = renderQueue.then(task);
+  renderQueue = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Where image tokens can be declared, as patterns matching the text in front of the token
+ */
+const IMAGE_DECLARATIONS: Array<{
+  subject: string;
+  prefix: RegExp;
+  /** Reads the id the image is for from the prefix match and the text after the token */
+  getNode: (prefix: RegExpMatchArray, rest: string) => string | undefined;
+}> = [
+  // `participant img:<url> Alice`, `actor img:<url> A as Alice`, also after `create`. Mermaid keys
+  // actors by the name in front of any alias or `@{...}` metadata, and the name may contain spaces
+  {
+    subject: 'participant',
+    prefix: /^\s*(?:create\s+)?(?:participant|actor)\s+(?=img:|icon:)/g,
+    getNode: (_, rest) => rest.trimEnd().match(/^(.+?)(?:\s+as\s|\s*@\{|$)/)?.[1],
+  },
+  // `class img:<url> Name`
+  {
+    subject: 'class',
+    prefix: /^\s*class\s+(?=img:|icon:)/g,
+    getNode: (_, rest) => rest.match(/^[\w-]+/)?.[0],
+  },
+  // `state img:<url> Name` or `state img:<url> "Description" as Name`
+  {
+    subject: 'state',
+    prefix: /^\s*state\s+(?=img:|icon:)/g,
+    getNode: (_, rest) => rest.match(/^(?:"[^"]*"\s+as\s+)?([\w-]+)/)?.[1],
+  },
+  // Flowchart labels in any node shape, `A[img:<url> Label]`, any number per line
+  {
+    subject: 'node',
+    prefix: /(\b\w+(?:-\w+)*)\s*(?:\[\[|\[\(|\(\[|\(\(\(|\(\(|\[\/|\[\\|\{\{|\[|\(|\{|>)\s*"?(?=img:|icon:)/g,
+    getNode: (prefix) => prefix[1],
+  },
+];
+
+/**
+ * Removes the image tokens from one line of a chart, recording their images by node id
+ * Malformed declarations are reported and left as written
+ */
+function removeImageTokens(
+  line: string,
+  lineNumber: number,
+  imageMappings: Map<string, NodeImage>,
+  diagnostics: EditorDiagnostic[]
+): string {
+  const declaration = IMAGE_DECLARATIONS.find(({ prefix }) => line.search(prefix) !== -1);
+  if (!declaration) return line;
+
+  let output = '';
+  let index = 0;
+  for (const match of line.matchAll(declaration.prefix)) {
+    const tokenStart = match.index! + match[0].length;
+    if (tokenStart < index) continue;
+
+    const report = (message: string) => diagnostics.push({ message, line: lineNumber, column: tokenStart + 1, severity: 'warning' });
+    const token = readImageToken(line, tokenStart);
+    if (token.isMalformed) {
+      token.problems.forEach(report);
+      continue;
+    }
+
+    const restStart = token.end + line.slice(token.end).search(/\S|$/);
+    const node = declaration.getNode(match, line.slice(restStart));
+    if (!node) {
+      report(`Missing ${declaration.subject} name after the image`);
+      continue;
+    }
+
+    token.problems.forEach(report);
+    if (token.image) {
+      imageMappings.set(node, token.image);
+    }
+    output += line.slice(index, tokenStart);
+    index = restStart;
+  }
+
+  return output + line.slice(index);
+}
+
+/**
+ * Preprocesses chart string to extract image references and clean for Mermaid
+ * Returns cleaned chart and image mappings, keyed by Mermaid's participant or node id, along
+ * with warnings for image declarations that are malformed or refer to unknown icons
+ */
+export function preprocessChart(chart: string): {
+  cleanedChart: string;
+  imageMappings: Map<string, NodeImage>;
+  diagnostics: EditorDiagnostic[];
+} {
+  const imageMappings = new Map<string, NodeImage>();
+  const diagnostics: EditorDiagnostic[] = [];
+
+  // Extract and remove img: and icon: references; declarations are rewritten in place
+  const cleanedChart = chart
+    .split('\n')
+    .map((line, index) => removeImageTokens(line, index + 1, imageMappings, diagnostics))
+    .join('\n');
+
+  return { cleanedChart, imageMappings, diagnostics };
+}
+
+/**
+ * Adds images to sequence diagram actors, found by the actor ids stamped by annotateDiagram
+ * Boxes get the image beside their name; stick figures get it as their head.
+ * Returns a function that removes them
+ */
+export function addActorImages(
+  svgElement: SVGSVGElement,
+  imageMappings: Map<string, NodeImage>,
+  diagramId: string
+): () => void {
+  const disposers: Array<() => void> = [];
+  const removeActorImages = () => [...disposers].reverse().forEach((dispose) => dispose());
+
+  if (imageMappings.size === 0) {
+    return removeActorImages;
+  }
+
+  // Each actor is drawn at the top and again at the bottom of the diagram
+  svgElement.querySelectorAll('rect.actor[data-node-id], g.actor-man[data-node-id]').forEach((actor, index) => {
+    const image = imageMappings.get(actor.getAttribute('data-node-id')!);
+    const group = actor.tagName === 'g' ? actor : actor.parentElement;
+    if (!image || !group || group.querySelector(':scope > .actor-logo')) {
+      return;
+    }
+
+    const options = { className: 'actor-logo', clipPathId: `${diagramId}-actor-logo-clip-${index}` };
+    if (actor.tagName === 'g') {
+      const head = group.querySelector<SVGGraphicsElement>(':scope > circle');
+      if (head) {
+        disposers.push(placeImage(svgElement, head, [], { ...image, position: 'background' }, options));
+      }
+    } else {
+      // Only the name moves aside; the lifeline is drawn outside the box's group
+      const name = Array.from(group.querySelectorAll<SVGGraphicsElement>(':scope > text'));
+      disposers.push(placeImage(svgElement, actor as SVGGraphicsElement, name, image, options));
+    }
+  });
+
+  return removeActorImages;
+}
+
+/**
+ * Renders a Mermaid diagram from text syntax
+ * Also returns the diagram's node and edge model, read while Mermaid's parser state is still current.
+ * Problems with image declarations don't stop the render and are logged as warnings.
+ */
+export async function renderDiagram(
+  chart: string,
+  diagramId: string,
+  config: MermaidConfig = MERMAID_CONFIG
+): Promise<{ svg: string; imageMappings: Map<string, NodeImage>; model: DiagramModel }> {
+  // Image declarations are rewritten in place, so line numbers in parse errors still match the source
+  const { cleanedChart, imageMappings, diagnostics } = preprocessChart(chart);
+  diagnostics.forEach(({ message, line, column }) => console.warn(`Line ${line}, column ${column}: ${message}`));
+  const { svg, model } = await enqueueRender(async () => {
+    initializeMermaid(config);
+    const { svg } = await mermaid.render(diagramId, cleanedChart);
+    const diagram = await mermaid.mermaidAPI.getDiagramFromText(cleanedChart);
+    return { svg, model: buildDiagramModel(diagram.type, diagram.db, cleanedChart) };
+  });
+  return { svg: scopeSvgIds(svg, diagramId), imageMappings, model };
+}
+
+/**
+ * Parses a chart without rendering it, throwing Mermaid's parse error if it is invalid
+ * Returns the warnings for its image declarations
+ */
+export async function parseDiagram(chart: string, config: MermaidConfig = MERMAID_CONFIG): Promise<EditorDiagnostic[]> {
+  const { cleanedChart, diagnostics } = preprocessChart(chart);
+  await enqueueRender(async () => {
+    initializeMermaid(config);
+    await mermaid.parse(cleanedChart);
+  });
+  return diagnostics;
+}
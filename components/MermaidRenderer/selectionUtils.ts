@@ -0,0 +1,187 @@
+/**
+ * Multi-selection of nodes by clicking and by dragging a lasso over the background
+ *
+ * The selection itself is held by the component (controlled through `selectedNodeIds`
+ * or internal state); these helpers compute the next selection and mark the selected
+ * nodes through the `data-node-id` attributes stamped by annotateDiagram.
+ */
+
+import { InteractionConfig } from './types';
+import { INTERACTION_CONFIG } from './constants';
+
+const SELECTED_CLASS = 'node-selected';
+const LASSO_CLASS = 'mermaid-lasso';
+
+/**
+ * How clicks and the lasso read and report the selection
+ */
+interface SelectionOptions {
+  getSelection: () => string[];
+  onChange: (nodeIds: string[]) => void;
+  /** Only start the lasso with a modifier key held, since a plain drag pans zoomable diagrams */
+  requireModifier?: boolean;
+  config?: InteractionConfig;
+}
+
+/**
+ * Client-space rectangle
+ */
+interface ClientRect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/**
+ * Whether a click or drag adds to the selection instead of replacing it
+ */
+export const isAdditive = (event: MouseEvent) => event.shiftKey || event.metaKey || event.ctrlKey;
+
+/**
+ * Returns the outermost element of every node, so nested parts aren't marked twice
+ * Sequence actors are drawn twice (top and bottom), so a node can have several
+ */
+function getNodeElements(svgElement: SVGSVGElement): Element[] {
+  return Array.from(svgElement.querySelectorAll('[data-node-id]')).filter(
+    (element) => !element.parentElement?.closest('[data-node-id]')
+  );
+}
+
+/**
+ * Resolves the selection after a node is clicked
+ * A plain click selects only that node; an additive click adds or removes it.
+ */
+export function getClickSelection(current: string[], nodeId: string, additive: boolean): string[] {
+  if (!additive) return [nodeId];
+  return current.includes(nodeId) ? current.filter((id) => id !== nodeId) : [...current, nodeId];
+}
+
+/**
+ * Marks the selected nodes with the `node-selected` class
+ */
+export function applySelection(svgElement: SVGSVGElement, nodeIds: string[]): void {
+  const selected = new Set(nodeIds);
+  getNodeElements(svgElement).forEach((element) => {
+    element.classList.toggle(SELECTED_CLASS, selected.has(element.getAttribute('data-node-id')!));
+  });
+}
+
+/**
+ * Returns the ids of nodes whose boxes overlap a client-space rectangle, in document order
+ */
+export function getNodesInRect(svgElement: SVGSVGElement, rect: ClientRect): string[] {
+  const nodeIds = new Set<string>();
+  getNodeElements(svgElement).forEach((element) => {
+    const box = element.getBoundingClientRect();
+    if (box.right >= rect.left && box.left <= rect.right && box.bottom >= rect.top && box.top <= rect.bottom) {
+      nodeIds.add(element.getAttribute('data-node-id')!);
+    }
+  });
+  return Array.from(nodeIds);
+}
+
+/**
+ * Selects nodes on click and with a lasso dragged from the background of `viewport`
+ * Clicking the background clears the selection. Returns a function that removes the listeners.
+ */
+export function setupSelection(
+  viewport: HTMLElement,
+  svgElement: SVGSVGElement,
+  options: SelectionOptions
+): () => void {
+  const { getSelection, onChange, requireModifier = false, config = INTERACTION_CONFIG } = options;
+  let lasso: { pointerId: number; x: number; y: number; additive: boolean; element: HTMLDivElement | null } | null = null;
+  let isLassoClick = false;
+
+  // Swallow the click that ends a lasso so it doesn't trigger node, background or focus handlers
+  const handleLassoClick = (event: MouseEvent) => {
+    if (!isLassoClick) return;
+    isLassoClick = false;
+    event.stopPropagation();
+    event.preventDefault();
+  };
+
+  const handleClick = (event: MouseEvent) => {
+    // Clicks that end a pan or a lasso are prevented
+    if (event.defaultPrevented || !(event.target instanceof Element)) return;
+
+    const target = event.target;
+    const nodeId = svgElement.contains(target) ? target.closest('[data-node-id]')?.getAttribute('data-node-id') : null;
+    if (nodeId) {
+      onChange(getClickSelection(getSelection(), nodeId, isAdditive(event)));
+    } else if (!isAdditive(event) && !target.closest('[data-edge-id], .mermaid-zoom-controls')) {
+      onChange([]);
+    }
+  };
+
+  const handlePointerDown = (event: PointerEvent) => {
+    isLassoClick = false;
+    if (event.button !== 0 || event.pointerType === 'touch' || (requireModifier && !isAdditive(event))) return;
+    if ((event.target as Element).closest?.('[data-node-id], [data-edge-id], .mermaid-zoom-controls')) return;
+
+    // Registered in the capture phase, so this runs before the zoom controller can start a pan
+    event.stopImmediatePropagation();
+    lasso = { pointerId: event.pointerId, x: event.clientX, y: event.clientY, additive: isAdditive(event), element: null };
+  };
+
+  const getLassoRect = (event: PointerEvent): ClientRect => ({
+    left: Math.min(lasso!.x, event.clientX),
+    top: Math.min(lasso!.y, event.clientY),
+    right: Math.max(lasso!.x, event.clientX),
+    bottom: Math.max(lasso!.y, event.clientY),
+  });
+
+  const handlePointerMove = (event: PointerEvent) => {
+    if (!lasso || event.pointerId !== lasso.pointerId) return;
+
+    if (!lasso.element) {
+      if (Math.hypot(event.clientX - lasso.x, event.clientY - lasso.y) < config.lassoThreshold) return;
+      lasso.element = document.createElement('div');
+      lasso.element.className = LASSO_CLASS;
+      viewport.appendChild(lasso.element);
+      viewport.setPointerCapture?.(event.pointerId);
+    }
+
+    // The lasso is positioned inside the viewport, which is the containing block
+    const rect = getLassoRect(event);
+    const bounds = viewport.getBoundingClientRect();
+    Object.assign(lasso.element.style, {
+      left: `${rect.left - bounds.left - viewport.clientLeft}px`,
+      top: `${rect.top - bounds.top - viewport.clientTop}px`,
+      width: `${rect.right - rect.left}px`,
+      height: `${rect.bottom - rect.top}px`,
+    });
+  };
+
+  const endLasso = (event: PointerEvent) => {
+    if (!lasso || event.pointerId !== lasso.pointerId) return;
+    const { element, additive } = lasso;
+
+    if (element && event.type === 'pointerup') {
+      const nodeIds = getNodesInRect(svgElement, getLassoRect(event));
+      const current = getSelection();
+      onChange(additive ? [...current, ...nodeIds.filter((id) => !current.includes(id))] : nodeIds);
+      isLassoClick = true;
+    }
+    element?.remove();
+    lasso = null;
+  };
+
+  viewport.addEventListener('click', handleLassoClick, true);
+  viewport.addEventListener('click', handleClick);
+  viewport.addEventListener('pointerdown', handlePointerDown, true);
+  viewport.addEventListener('pointermove', handlePointerMove);
+  viewport.addEventListener('pointerup', endLasso);
+  viewport.addEventListener('pointercancel', endLasso);
+
+  return () => {
+    lasso?.element?.remove();
+    viewport.removeEventListener('click', handleLassoClick, true);
+    viewport.removeEventListener('click', handleClick);
+    viewport.removeEventListener('pointerdown', handlePointerDown, true);
+    viewport.removeEventListener('pointermove', handlePointerMove);
+    viewport.removeEventListener('pointerup', endLasso);
+    viewport.removeEventListener('pointercancel', endLasso);
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Headless rendering of enhanced, static SVG for SSR first paint, static sites and email
+ *
+ * Works anywhere with a DOM. In Node, expose a jsdom window globally before calling
+ * renderToSVGString; missing SVG measurement is filled in by layoutShims.
+ */
+
+import type { MermaidConfig } from 'mermaid';
+import { StaticRenderOptions } from './types';
+import { DIAGRAM_ID_PREFIX, THEME_SIZE_DEFAULTS } from './constants';
+import { renderDiagram, addActorImages } from './renderUtils';
+import { addNodeImages } from './imageUtils';
+import { enhanceStaticSVG } from './svgUtils';
+import { annotateDiagram } from './diagramModel';
+import { resolveTheme } from './themeUtils';
+import { collectDocumentStyles, inlineImages } from './exportUtils';
+import { installLayoutShims } from './layoutShims';
+
+/**
+ * Counter for generated diagram IDs
+ */
+let staticDiagramCount = 0;
+
+/**
+ * Width used for diagrams that size themselves to their container (Gantt), which has no width off-screen
+ */
+const STATIC_DIAGRAM_WIDTH = 1200;
+
+/**
+ * Renders a chart to an enhanced SVG string with the theme and styles inlined
+ */
+export async function renderToSVGString(chart: string, options: StaticRenderOptions = {}): Promise<string> {
+  if (typeof window === 'undefined' || typeof document === 'undefined') {
+    throw new Error('renderToSVGString needs a DOM; expose a jsdom window globally first');
+  }
+
+  installLayoutShims(window);
+
+  const diagramId = options.id ?? `${DIAGRAM_ID_PREFIX}-static-${++staticDiagramCount}`;
+  const { mermaidConfig, cssVariables } = resolveTheme(options.theme, options.prefersDark);
+
+  // HTML labels can't be measured without a layout engine and aren't supported by email clients
+  const config: MermaidConfig = {
+    ...mermaidConfig,
+    htmlLabels: false,
+    flowchart: { ...mermaidConfig.flowchart, htmlLabels: false },
+    gantt: { ...mermaidConfig.gantt, useWidth: mermaidConfig.gantt?.useWidth ?? STATIC_DIAGRAM_WIDTH },
+  };
+  const { svg, imageMappings, model } = await renderDiagram(chart, diagramId, config);
+
+  // Attach the SVG off-screen so real browsers can measure it while it's enhanced
+  const host = document.createElement('div');
+  host.style.cssText = 'position: absolute; left: -100000px; top: 0; visibility: hidden;';
+  host.innerHTML = svg;
+  document.body.appendChild(host);
+
+  try {
+    const svgElement = host.querySelector('svg');
+    if (!svgElement) {
+      throw new Error('Mermaid did not return an SVG element');
+    }
+
+    annotateDiagram(svgElement, model, diagramId);
+    if (model.type === 'sequence') {
+      addActorImages(svgElement, imageMappings, diagramId);
+    } else {
+      addNodeImages(svgElement, imageMappings, diagramId);
+    }
+    enhanceStaticSVG(svgElement);
+
+    // The container that normally provides the theme variables isn't part of the output
+    Object.entries({ ...THEME_SIZE_DEFAULTS, ...cssVariables }).forEach(([name, value]) => {
+      svgElement.style.setProperty(name, value);
+    });
+
+    const css = options.css ?? collectDocumentStyles();
+    if (css) {
+      const styleElement = document.createElementNS('http://www.w3.org/2000/svg', 'style');
+      styleElement.textContent = css;
+      svgElement.insertBefore(styleElement, svgElement.firstChild);
+    }
+
+    if (options.embedImages) {
+      await inlineImages(svgElement);
+    }
+
+    if (!svgElement.getAttribute('xmlns')) {
+      svgElement.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    }
+
+    return new XMLSerializer().serializeToString(svgElement);
+  } finally {
+    host.remove();
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Live node status overlay
+ *
+ * Statuses are shown through classes on the rendered nodes and on the edges into them, found
+ * by the `data-node-id` and `data-edge-id` attributes stamped by annotateDiagram, so updating
+ * them never re-renders Mermaid's layout. Mermaid's arrowhead markers are shared by every edge,
+ * so edges into failed nodes are pointed at red copies of theirs.
+ */
+
+import { DiagramModel, NodeStatus } from './types';
+import { NODE_STATUS_LABELS } from './constants';
+
+const STATUS_CLASS = 'has-status';
+const NODE_CLASS_PREFIX = 'node-status-';
+const EDGE_CLASS_PREFIX = 'edge-into-';
+const FAILED_MARKER_CLASS = 'status-failed-marker';
+const MARKER_ATTRIBUTES = ['marker-start', 'marker-end'];
+
+/**
+ * Prefix of the attributes holding an edge's own markers while red copies replace them
+ */
+const ORIGINAL_MARKER_PREFIX = 'data-status-';
+
+/**
+ * Removes the classes starting with `prefix`
+ */
+function removePrefixedClasses(element: Element, prefix: string): void {
+  Array.from(element.classList)
+    .filter((name) => name.startsWith(prefix))
+    .forEach((name) => element.classList.remove(name));
+}
+
+/**
+ * Points an edge's arrowheads at red copies of its markers, creating the copies on first use
+ */
+function pointToFailedMarkers(svgElement: SVGSVGElement, edge: Element): void {
+  MARKER_ATTRIBUTES.forEach((attribute) => {
+    const markerId = edge.getAttribute(attribute)?.match(/^url\(#(.+)\)$/)?.[1];
+    if (!markerId) return;
+
+    const failedId = `${markerId}-failed`;
+    if (!svgElement.querySelector(`[id="${failedId}"]`)) {
+      const marker = svgElement.querySelector(`[id="${markerId}"]`);
+      if (!marker) return;
+      const copy = marker.cloneNode(true) as Element;
+      copy.id = failedId;
+      copy.classList.add(FAILED_MARKER_CLASS);
+      marker.after(copy);
+    }
+
+    edge.setAttribute(`${ORIGINAL_MARKER_PREFIX}${attribute}`, edge.getAttribute(attribute)!);
+    edge.setAttribute(attribute, `url(#${failedId})`);
+  });
+}
+
+/**
+ * Puts every edge's own markers back and removes the red copies
+ */
+function restoreMarkers(svgElement: SVGSVGElement): void {
+  MARKER_ATTRIBUTES.forEach((attribute) => {
+    const original = `${ORIGINAL_MARKER_PREFIX}${attribute}`;
+    svgElement.querySelectorAll(`[${original}]`).forEach((edge) => {
+      edge.setAttribute(attribute, edge.getAttribute(original)!);
+      edge.removeAttribute(original);
+    });
+  });
+  svgElement.querySelectorAll(`.${FAILED_MARKER_CLASS}`).forEach((marker) => marker.remove());
+}
+
+/**
+ * Marks nodes with `node-status-<status>` and the edges into them with `edge-into-<status>`,
+ * replacing the previous statuses. An empty map clears them all.
+ */
+export function applyNodeStatus(
+  svgElement: SVGSVGElement,
+  model: DiagramModel,
+  nodeStatus: Record<string, NodeStatus>
+): void {
+  const statuses = new Map(Object.entries(nodeStatus));
+  svgElement.classList.toggle(STATUS_CLASS, statuses.size > 0);
+  restoreMarkers(svgElement);
+
+  // Only the outermost element of a node is marked, so nested parts don't glow twice
+  svgElement.querySelectorAll('[data-node-id]').forEach((element) => {
+    removePrefixedClasses(element, NODE_CLASS_PREFIX);
+    const status = statuses.get(element.getAttribute('data-node-id')!);
+    if (status && !element.parentElement?.closest('[data-node-id]')) {
+      element.classList.add(`${NODE_CLASS_PREFIX}${status}`);
+    }
+  });
+
+  svgElement.querySelectorAll('[data-edge-id]').forEach((element) => {
+    removePrefixedClasses(element, EDGE_CLASS_PREFIX);
+    const edge = model.edges.get(element.getAttribute('data-edge-id')!);
+    const status = edge && statuses.get(edge.to);
+    if (!status) return;
+
+    element.classList.add(`${EDGE_CLASS_PREFIX}${status}`);
+    if (status === 'failed') {
+      pointToFailedMarkers(svgElement, element);
+    }
+  });
+}
+
+/**
+ * Keeps only the edges into the running nodes while statuses are shown, or all of them when
+ * `runningNodeIds` is null
+ */
+export function filterRunningEdges(
+  edges: Element[],
+  model: DiagramModel | null,
+  runningNodeIds: string[] | null
+): Element[] {
+  if (!runningNodeIds) return edges;
+
+  const running = new Set(runningNodeIds);
+  return edges.filter((edge) => {
+    const to = model?.edges.get(edge.getAttribute('data-edge-id') ?? '')?.to;
+    return to !== undefined && running.has(to);
+  });
+}
+
+/**
+ * Counts the diagram's nodes in each status, in legend order, leaving out statuses no node has
+ */
+export function countNodeStatuses(
+  model: DiagramModel,
+  nodeStatus: Record<string, NodeStatus>
+): Array<[NodeStatus, number]> {
+  const counts = new Map<NodeStatus, number>();
+  Object.entries(nodeStatus).forEach(([nodeId, status]) => {
+    if (model.nodes.has(nodeId)) {
+      counts.set(status, (counts.get(status) ?? 0) + 1);
+    }
+  });
+
+  return (Object.keys(NODE_STATUS_LABELS) as NodeStatus[])
+    .filter((status) => counts.has(status))
+    .map((status) => [status, counts.get(status)!]);
+}
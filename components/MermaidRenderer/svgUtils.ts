@@ -2,15 +2,22 @@
  * Utilities for enhancing SVG elements with custom styles and animations
  */
 
-import { MERMAID_SELECTORS, EDGE_LABEL_MIN_SIZE } from './constants';
+import { MERMAID_SELECTORS, EDGE_LABEL_MIN_SIZE, MORPH_EXITING_CLASS } from './constants';
+
+/**
+ * Marks arrow markers whose refX has been adjusted, so enhancing again doesn't move them further
+ */
+const FIXED_MARKER_ATTRIBUTE = 'data-marker-fixed';
 
 /**
  * Adds animated styles to all node elements (boxes, circles, etc.)
+ * Nodes that are already animated are skipped
  */
 export function enhanceNodes(svgElement: SVGSVGElement): void {
   const nodes = svgElement.querySelectorAll(MERMAID_SELECTORS.nodes);
 
   nodes.forEach((node) => {
+    if (node.classList.contains('animated-node')) return;
     node.classList.add('animated-node');
 
     // Add rounded corners to rectangles
@@ -111,6 +118,11 @@ export function findEdgePaths(svgElement: SVGSVGElement): NodeListOf<Element> |
     edges.forEach(edge => edgeSet.add(edge));
   }
 
+  // Copies of the previous render fading out during a morph transition aren't edges of this one
+  edgeSet.forEach((edge) => {
+    if (edge.closest(`.${MORPH_EXITING_CLASS}`)) edgeSet.delete(edge);
+  });
+
   // If we found edges using selectors, return them
   if (edgeSet.size > 0) {
     return Array.from(edgeSet);
@@ -122,7 +134,7 @@ export function findEdgePaths(svgElement: SVGSVGElement): NodeListOf<Element> |
     const parent = path.parentElement;
     const isNotNode = !parent?.classList.contains('node');
     const isNotMarker = parent?.tagName?.toLowerCase() !== 'marker';
-    return isNotNode && isNotMarker;
+    return isNotNode && isNotMarker && !path.closest(`.${MORPH_EXITING_CLASS}`);
   });
 }
 
@@ -140,10 +152,13 @@ export function enhanceEdges(svgElement: SVGSVGElement): NodeListOf<Element> | E
 }
 
 /**
- * Creates a dedicated group for particle elements
+ * Creates a dedicated group for particle elements, or returns the existing one
  * This ensures particles render on top of all other SVG elements
  */
 export function createParticleLayer(svgElement: SVGSVGElement): SVGGElement {
+  const existing = svgElement.querySelector<SVGGElement>(':scope > .particle-layer');
+  if (existing) return existing;
+
   const particleGroup = document.createElementNS('http://www.w3.org/2000/svg', 'g');
   particleGroup.setAttribute('class', 'particle-layer');
   svgElement.appendChild(particleGroup);
@@ -160,6 +175,8 @@ export function fixArrowMarkers(svgElement: SVGSVGElement): void {
   markers.forEach((marker) => {
     const id = marker.getAttribute('id');
 
+    if (marker.hasAttribute(FIXED_MARKER_ATTRIBUTE)) return;
+
     // Only fix arrowhead markers (not other marker types)
     if (id && (id.includes('arrowhead') || id.includes('flowchart') || id.includes('arrow'))) {
       // Adjust refX to position the marker so the path ends at the base of the arrowhead
@@ -171,10 +188,91 @@ export function fixArrowMarkers(svgElement: SVGSVGElement): void {
       const adjustedRefX = currentRefX - 2.5; // Pull back by 2.5 units
 
       marker.setAttribute('refX', adjustedRefX.toString());
+      marker.setAttribute(FIXED_MARKER_ATTRIBUTE, '');
     }
   });
 }
 
+/**
+ * Escapes a string for literal use inside a regular expression
+ */
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Prefixes every element ID in a rendered SVG string with the diagram ID
+ * and rewrites all references to them (url(#...), href="#...", selectors in <style>).
+ * Mermaid leaves some IDs unscoped (e.g. sequence diagram markers), which
+ * makes multiple diagrams on one page share arrowheads and styles.
+ */
+export function scopeSvgIds(svg: string, diagramId: string): string {
+  const renamed = new Map<string, string>();
+
+  for (const match of svg.matchAll(/\sid="([^"]+)"/g)) {
+    const id = match[1];
+    if (id !== diagramId && !id.startsWith(`${diagramId}-`) && !id.startsWith(`${diagramId}_`)) {
+      renamed.set(id, `${diagramId}-${id}`);
+    }
+  }
+
+  if (renamed.size === 0) {
+    return svg;
+  }
+
+  // Longest IDs first so that prefixes of other IDs don't match early
+  const alternation = Array.from(renamed.keys())
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+
+  // Only rewrite actual references, so label text like "#a" and colors like #fff are left alone
+  const rename = (_: string, prefix: string, id: string) => `${prefix}${renamed.get(id)}`;
+  const selectorPattern = new RegExp(`(#)(${alternation})(?![\\w-])`, 'g');
+
+  return svg
+    .replace(new RegExp(`(\\sid=")(${alternation})(?=")`, 'g'), rename)
+    .replace(new RegExp(`(url\\(\\s*['"]?#)(${alternation})(?=['"]?\\s*\\))`, 'g'), rename)
+    .replace(new RegExp(`(\\s(?:xlink:)?href="#)(${alternation})(?=")`, 'g'), rename)
+    // Selectors are the text before each `{` in a stylesheet, after the previous rule or declaration
+    .replace(/(<style[^>]*>)([\s\S]*?)(<\/style>)/g, (_, open: string, css: string, close: string) =>
+      `${open}${css.replace(/[^{};]+(?=\{)/g, (selector) => selector.replace(selectorPattern, rename))}${close}`
+    );
+}
+
+/**
+ * Finds the rendered element for a Mermaid node id (e.g. `A` in `A[Start]`)
+ * Flowchart, class and state nodes carry the id in their DOM id; sequence
+ * actors carry it in the `name` attribute of their box. Falls back to the label text.
+ */
+export function findNodeElement(svgElement: SVGSVGElement, nodeId: string): SVGGraphicsElement | null {
+  // Nodes identified from the parser (see diagramModel)
+  const byNodeId = Array.from(svgElement.querySelectorAll('[data-node-id]')).find(
+    (node) => node.getAttribute('data-node-id') === nodeId
+  );
+  if (byNodeId) {
+    return byNodeId as SVGGraphicsElement;
+  }
+
+  const domIdPattern = new RegExp(`-(?:flowchart|classId|state)-${escapeRegExp(nodeId)}-\\d+$`);
+  const byDomId = Array.from(svgElement.querySelectorAll('g[id]')).find((group) => domIdPattern.test(group.id));
+  if (byDomId) {
+    return byDomId as SVGGraphicsElement;
+  }
+
+  const actor = Array.from(svgElement.querySelectorAll('rect.actor[name]')).find(
+    (rect) => rect.getAttribute('name') === nodeId
+  );
+  if (actor) {
+    return actor as SVGGraphicsElement;
+  }
+
+  const byLabel = Array.from(svgElement.querySelectorAll('.node, .stateGroup, .classGroup')).find(
+    (node) => node.textContent?.trim() === nodeId
+  );
+  return (byLabel as SVGGraphicsElement) || null;
+}
+
 /**
  * Configures SVG rendering optimizations
  */
@@ -184,18 +282,28 @@ export function configureSVGRendering(svgElement: SVGSVGElement): void {
 }
 
 /**
- * Applies all SVG enhancements in the correct order
+ * Applies the static enhancements (nodes, labels, edges, markers) in the correct order
+ * Safe to apply again to the same SVG. Returns the edge paths
  */
-export function enhanceSVG(svgElement: SVGSVGElement): {
-  edges: NodeListOf<Element> | Element[];
-  particleGroup: SVGGElement;
-} {
+export function enhanceStaticSVG(svgElement: SVGSVGElement): NodeListOf<Element> | Element[] {
   configureSVGRendering(svgElement);
   enhanceNodes(svgElement);
   enhanceLabels(svgElement);
   enhanceEdgeLabelBoxes(svgElement);
   const edges = enhanceEdges(svgElement);
   fixArrowMarkers(svgElement);
+
+  return edges;
+}
+
+/**
+ * Applies all SVG enhancements in the correct order
+ */
+export function enhanceSVG(svgElement: SVGSVGElement): {
+  edges: NodeListOf<Element> | Element[];
+  particleGroup: SVGGElement;
+} {
+  const edges = enhanceStaticSVG(svgElement);
   const particleGroup = createParticleLayer(svgElement);
 
   return { edges, particleGroup };
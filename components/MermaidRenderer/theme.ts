@@ -5,6 +5,8 @@
  * Sophisticated teals and cyans balanced with warm off-white backgrounds.
  */
 
+import type { ThemePreset, ThemePresetName } from './types';
+
 /**
  * Primary brand colors
  */
@@ -73,6 +75,77 @@ export const DIAGRAM = {
   glowSecondary: PRIMARY.tealLight,
 } as const;
 
+/**
+ * Built-in theme presets
+ */
+export const THEME_PRESETS: Record<ThemePresetName, ThemePreset> = {
+  'truemed-light': {
+    primary: PRIMARY.teal,
+    secondary: PRIMARY.tealLight,
+    text: TEXT.body,
+    background: DIAGRAM.containerBackground,
+    surface: 'rgba(255, 255, 255, 0.95)',
+    surfaceSolid: BACKGROUND.white,
+    accentSoft: ACCENT.cyanSoft,
+    accentLight: ACCENT.cyanLight,
+    clusterFill: 'rgba(244, 255, 251, 0.5)',
+    particle: PRIMARY.teal,
+    particleHalo: ACCENT.cyanLight,
+  },
+  'truemed-dark': {
+    primary: '#2BC4C0',
+    secondary: '#7FC4C2',
+    text: '#E6F4F1',
+    background: `linear-gradient(135deg, #0F1E22 0%, ${PRIMARY.cyanDark} 50%, #0F1E22 100%)`,
+    surface: 'rgba(24, 59, 67, 0.95)',
+    surfaceSolid: PRIMARY.cyanDark,
+    accentSoft: '#1F4A52',
+    accentLight: '#2A5F66',
+    clusterFill: 'rgba(31, 74, 82, 0.5)',
+    particle: '#2BC4C0',
+    particleHalo: '#7FE0D8',
+  },
+  'high-contrast': {
+    primary: '#000000',
+    secondary: '#0047AB',
+    text: '#000000',
+    background: BACKGROUND.white,
+    surface: BACKGROUND.white,
+    surfaceSolid: BACKGROUND.white,
+    accentSoft: ACCENT.yellow,
+    accentLight: ACCENT.yellow,
+    clusterFill: 'rgba(0, 0, 0, 0.03)',
+    particle: ACCENT.red,
+    particleHalo: ACCENT.yellow,
+  },
+  monochrome: {
+    primary: TEXT.subtle,
+    secondary: TEXT.placeholder,
+    text: TEXT.body,
+    background: `linear-gradient(135deg, #F7FAFC 0%, ${BACKGROUND.gray100} 100%)`,
+    surface: 'rgba(255, 255, 255, 0.95)',
+    surfaceSolid: BACKGROUND.white,
+    accentSoft: BACKGROUND.gray100,
+    accentLight: '#E2E8F0',
+    clusterFill: 'rgba(237, 242, 247, 0.5)',
+    particle: TEXT.subtle,
+    particleHalo: '#CBD5E0',
+  },
+  neon: {
+    primary: '#00F5D4',
+    secondary: '#F15BB5',
+    text: '#F8F9FA',
+    background: 'linear-gradient(135deg, #0B0221 0%, #1B0B3A 50%, #0B0221 100%)',
+    surface: 'rgba(20, 8, 48, 0.92)',
+    surfaceSolid: '#140830',
+    accentSoft: '#231049',
+    accentLight: '#3A1C71',
+    clusterFill: 'rgba(35, 16, 73, 0.5)',
+    particle: '#FEE440',
+    particleHalo: '#F15BB5',
+  },
+};
+
 /**
  * Typography scale
  */
@@ -111,11 +184,12 @@ export const SIZING = {
 } as const;
 
 /**
- * Animation timings
+ * Default animation timings, mirrored as var() fallbacks in styles.css
  */
 export const ANIMATION = {
-  nodeGlow: '6s',
-  edgePulse: '5s',
+  nodeGlow: '4s',
+  edgePulse: '3s',
+  markerPulse: '3s',
   particleDuration: {
     min: 2000,
     max: 3500,
@@ -131,3 +205,35 @@ export function hexToRgba(hex: string, alpha: number): string {
   const b = parseInt(hex.slice(5, 7), 16);
   return `rgba(${r}, ${g}, ${b}, ${alpha})`;
 }
+
+/**
+ * Converts a hex (#rgb, #rrggbb, with optional alpha) or rgb()/rgba() color to rgba
+ * Returns null for formats that can't be parsed (named colors, hsl(), etc.)
+ */
+export function toRgba(color: string, alpha: number): string | null {
+  const value = color.trim();
+
+  const hexMatch = value.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i);
+  if (hexMatch) {
+    let hex = hexMatch[1];
+    if (hex.length <= 4) {
+      hex = hex.split('').map((char) => char + char).join('');
+    }
+    return hexToRgba(`#${hex.slice(0, 6)}`, alpha);
+  }
+
+  const rgbMatch = value.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/i);
+  if (rgbMatch) {
+    return `rgba(${rgbMatch[1]}, ${rgbMatch[2]}, ${rgbMatch[3]}, ${alpha})`;
+  }
+
+  return null;
+}
+
+/**
+ * Applies an alpha channel to any CSS color
+ * Falls back to color-mix() for formats toRgba can't parse
+ */
+export function withAlpha(color: string, alpha: number): string {
+  return toRgba(color, alpha) ?? `color-mix(in srgb, ${color} ${Math.round(alpha * 100)}%, transparent)`;
+}
@@ -0,0 +1,199 @@
+/**
+ * Utilities for resolving a CustomTheme into Mermaid config, particle styles
+ * and the CSS custom properties used by styles.css
+ */
+
+import { CustomTheme, ResolvedTheme, ThemeName, ThemePreset, ThemePresetName } from './types';
+import { MERMAID_CONFIG, PARTICLE_STYLE, THEME_CSS_VARIABLES } from './constants';
+import { ACCENT, THEME_PRESETS, toRgba, withAlpha } from './theme';
+
+/**
+ * Registry of theme presets by name, seeded with the built-in presets
+ */
+const themePresets = new Map<string, ThemePreset>(Object.entries(THEME_PRESETS));
+
+/**
+ * Shorthand names that resolve to built-in presets
+ */
+const PRESET_ALIASES: Record<string, ThemePresetName> = {
+  light: 'truemed-light',
+  dark: 'truemed-dark',
+};
+
+/**
+ * Preset used when no theme or an unknown name is given
+ */
+const DEFAULT_PRESET: ThemePresetName = 'truemed-light';
+
+/**
+ * Registers a named theme preset so it can be selected with `theme="name"`
+ */
+export function registerThemePreset(name: string, preset: ThemePreset): void {
+  themePresets.set(name, preset);
+}
+
+/**
+ * Looks up a preset by name (or alias), falling back to the default preset
+ */
+export function getThemePreset(name: string): ThemePreset {
+  const preset = themePresets.get(PRESET_ALIASES[name] ?? name);
+  if (!preset) {
+    console.warn(`Unknown theme preset "${name}", falling back to "${DEFAULT_PRESET}"`);
+    return themePresets.get(DEFAULT_PRESET)!;
+  }
+  return preset;
+}
+
+/**
+ * Applies CustomTheme overrides on top of a preset
+ * A custom primary color recolors every accent derived from it
+ */
+function applyThemeOverrides(palette: ThemePreset, theme: CustomTheme): ThemePreset {
+  const result = { ...palette };
+
+  if (theme.primaryColor) {
+    result.primary = theme.primaryColor;
+    result.secondary = theme.primaryColor;
+    result.accentSoft = toRgba(theme.primaryColor, 0.06) ?? palette.surfaceSolid;
+    result.accentLight = toRgba(theme.primaryColor, 0.2) ?? theme.primaryColor;
+    result.clusterFill = withAlpha(theme.primaryColor, 0.04);
+    result.particle = theme.primaryColor;
+    result.particleHalo = result.accentLight;
+  }
+
+  if (theme.secondaryColor) result.secondary = theme.secondaryColor;
+  if (theme.textColor) result.text = theme.textColor;
+  if (theme.backgroundColor) result.background = theme.backgroundColor;
+  if (theme.particleColor) {
+    result.particle = theme.particleColor;
+    result.particleHalo = theme.particleColor;
+  }
+
+  return result;
+}
+
+/**
+ * Maps a palette onto Mermaid's own themeVariables so that elements styled
+ * by Mermaid (clusters, actors, notes, edge labels) match the theme
+ */
+function resolveMermaidConfig(palette: ThemePreset, theme: CustomTheme): ResolvedTheme['mermaidConfig'] {
+  return {
+    ...MERMAID_CONFIG,
+    themeVariables: {
+      ...MERMAID_CONFIG.themeVariables,
+      primaryColor: palette.primary,
+      primaryTextColor: palette.text,
+      primaryBorderColor: palette.secondary,
+      lineColor: palette.primary,
+      secondaryColor: palette.secondary,
+      tertiaryColor: palette.accentLight,
+      background: palette.surfaceSolid,
+      mainBkg: palette.surfaceSolid,
+      nodeBorder: palette.primary,
+      clusterBkg: palette.accentSoft,
+      clusterBorder: palette.secondary,
+      edgeLabelBackground: palette.surfaceSolid,
+      labelBoxBkgColor: palette.surfaceSolid,
+      labelTextColor: palette.text,
+      actorBkg: palette.surfaceSolid,
+      actorBorder: palette.primary,
+      actorTextColor: palette.text,
+      actorLineColor: palette.primary,
+      signalColor: palette.text,
+      signalTextColor: palette.text,
+      noteBkgColor: palette.surfaceSolid,
+      noteBorderColor: palette.secondary,
+      noteTextColor: palette.text,
+      ...(theme.fontSize && { fontSize: `${theme.fontSize}px` }),
+    },
+  };
+}
+
+/**
+ * Maps a palette onto the three-layer particle style
+ */
+function resolveParticleStyle(palette: ThemePreset): ResolvedTheme['particleStyle'] {
+  return {
+    outerGlow: { ...PARTICLE_STYLE.outerGlow, fill: palette.particleHalo },
+    core: { ...PARTICLE_STYLE.core, fill: palette.particle },
+    innerGlow: { ...PARTICLE_STYLE.innerGlow, fill: palette.secondary },
+  };
+}
+
+/**
+ * Maps a palette onto the CSS custom properties consumed by styles.css
+ * Sizes are only emitted when set, so the responsive defaults still apply
+ */
+function resolveCssVariables(palette: ThemePreset, theme: CustomTheme): Record<string, string> {
+  const vars = THEME_CSS_VARIABLES;
+  const cssVariables: Record<string, string> = {
+    [vars.primary]: palette.primary,
+    [vars.secondary]: palette.secondary,
+    [vars.text]: palette.text,
+    [vars.background]: palette.background,
+    [vars.ambient]: withAlpha(palette.primary, 0.05),
+    [vars.surface]: palette.surface,
+    [vars.surfaceSolid]: palette.surfaceSolid,
+    [vars.surfaceHover]: palette.accentSoft,
+    [vars.clusterFill]: palette.clusterFill,
+    [vars.tint]: withAlpha(palette.primary, 0.15),
+    [vars.tintStrong]: withAlpha(palette.primary, 0.6),
+    [vars.glowSoft]: withAlpha(palette.primary, 0.15),
+    [vars.glow]: withAlpha(palette.primary, 0.2),
+    [vars.glowStrong]: withAlpha(palette.primary, 0.35),
+    [vars.particleGlow]: withAlpha(palette.particle, 0.5),
+    [vars.particleGlowSoft]: withAlpha(palette.particle, 0.3),
+    [vars.statusRunning]: palette.primary,
+    [vars.statusSuccess]: palette.secondary,
+    [vars.statusPending]: withAlpha(palette.text, 0.45),
+    [vars.statusFailed]: ACCENT.red,
+    [vars.statusFailedGlow]: withAlpha(ACCENT.red, 0.35),
+  };
+
+  if (theme.strokeWidth) {
+    cssVariables[vars.nodeStrokeWidth] = theme.strokeWidth.toString();
+    cssVariables[vars.edgeStrokeWidth] = theme.strokeWidth.toString();
+    cssVariables[vars.messageStrokeWidth] = theme.strokeWidth.toString();
+  }
+
+  if (theme.fontSize) {
+    const fontSize = `${theme.fontSize}px`;
+    cssVariables[vars.nodeFontSize] = fontSize;
+    cssVariables[vars.edgeFontSize] = fontSize;
+    cssVariables[vars.actorFontSize] = fontSize;
+    cssVariables[vars.messageFontSize] = fontSize;
+  }
+
+  return cssVariables;
+}
+
+/**
+ * Returns true if the theme follows the user's prefers-color-scheme setting
+ */
+export function isAutoTheme(theme?: ThemeName | CustomTheme): boolean {
+  return (typeof theme === 'string' ? theme : theme?.preset) === 'auto';
+}
+
+/**
+ * Resolves a theme name or CustomTheme into Mermaid config, particle style and CSS variables
+ *
+ * In 'auto' mode the Mermaid config always comes from the light preset, so switching
+ * color schemes only swaps CSS variables and particle colors without re-laying out the diagram.
+ */
+export function resolveTheme(theme: ThemeName | CustomTheme = {}, prefersDark: boolean = false): ResolvedTheme {
+  const customTheme: CustomTheme = typeof theme === 'string' ? { preset: theme } : theme;
+  const presetName = customTheme.preset ?? DEFAULT_PRESET;
+  const isAuto = presetName === 'auto';
+
+  const palette = applyThemeOverrides(
+    getThemePreset(isAuto ? (prefersDark ? 'dark' : 'light') : presetName),
+    customTheme
+  );
+  const layoutPalette = isAuto ? applyThemeOverrides(getThemePreset('light'), customTheme) : palette;
+
+  return {
+    mermaidConfig: resolveMermaidConfig(layoutPalette, customTheme),
+    particleStyle: resolveParticleStyle(palette),
+    cssVariables: resolveCssVariables(palette, customTheme),
+  };
+}
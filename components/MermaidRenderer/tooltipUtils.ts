@@ -0,0 +1,176 @@
+/**
+ * Tooltips for hovered and keyboard-focused nodes and edges
+ *
+ * Triggers are delegated on the container like the other interaction events and report
+ * which node or edge the tooltip belongs to; the Tooltip component renders it and places
+ * it with positionTooltip.
+ */
+
+import { ActiveTooltip, DiagramModel, TooltipConfig, TooltipTarget } from './types';
+import { TOOLTIP_CONFIG } from './constants';
+import { getInteractionData, InteractionData } from './interactionUtils';
+
+/**
+ * Where to draw a tooltip, in client coordinates
+ */
+export interface TooltipPosition {
+  left: number;
+  top: number;
+  placement: 'top' | 'bottom';
+}
+
+/**
+ * Controls for the tooltip triggers
+ */
+export interface TooltipTriggers {
+  /** Keeps the tooltip open, e.g. while the pointer is over it */
+  hold: () => void;
+  /** Hides the tooltip after the hide delay */
+  release: () => void;
+  /** Hides the tooltip and removes the listeners */
+  destroy: () => void;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(value, max));
+
+/**
+ * Centers a tooltip above its anchor, flipping below when there isn't room above,
+ * and keeps it inside the window
+ */
+export function positionTooltip(
+  anchor: DOMRect,
+  width: number,
+  height: number,
+  config: TooltipConfig = TOOLTIP_CONFIG
+): TooltipPosition {
+  const { offset, margin } = config;
+  const fitsAbove = anchor.top - offset - height >= margin;
+  const fitsBelow = anchor.bottom + offset + height <= window.innerHeight - margin;
+  const placement = fitsAbove || !fitsBelow ? 'top' : 'bottom';
+
+  return {
+    left: clamp(anchor.left + anchor.width / 2 - width / 2, margin, window.innerWidth - margin - width),
+    top: clamp(
+      placement === 'top' ? anchor.top - offset - height : anchor.bottom + offset,
+      margin,
+      window.innerHeight - margin - height
+    ),
+    placement,
+  };
+}
+
+/**
+ * Builds the tooltip target for a node or edge, with its tooltip text from the chart
+ */
+function getTooltipTarget(model: DiagramModel, interaction: InteractionData): TooltipTarget {
+  if (interaction.type === 'edge') {
+    return { type: 'edge', data: interaction.data };
+  }
+  const tooltip = interaction.data.id ? model.nodes.get(interaction.data.id)?.tooltip : undefined;
+  return { type: 'node', data: interaction.data, tooltip };
+}
+
+/**
+ * Shows tooltips for nodes and edges hovered inside `container` (after the show delay)
+ * or focused with the keyboard (right away). Escape hides the tooltip.
+ * `onChange` receives the tooltip to show, or null to hide it.
+ */
+export function setupTooltipTriggers(
+  container: HTMLElement,
+  svgElement: SVGSVGElement,
+  model: DiagramModel,
+  onChange: (tooltip: ActiveTooltip | null) => void,
+  config: TooltipConfig = TOOLTIP_CONFIG
+): TooltipTriggers {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  // The element under the pointer, and the element the tooltip is showing for
+  let hovered: Element | null = null;
+  let shown: Element | null = null;
+  let isFocusTooltip = false;
+
+  const show = (interaction: InteractionData, anchor: Element, isFocus: boolean) => {
+    clearTimeout(timer);
+    shown = interaction.element;
+    isFocusTooltip = isFocus;
+    onChange({ target: getTooltipTarget(model, interaction), anchor, focused: isFocus ? anchor : undefined });
+  };
+
+  const hide = () => {
+    clearTimeout(timer);
+    if (!shown) return;
+    shown = null;
+    isFocusTooltip = false;
+    onChange(null);
+  };
+
+  const release = () => {
+    clearTimeout(timer);
+    timer = setTimeout(hide, config.hideDelay);
+  };
+
+  const handleMouseOver = (event: MouseEvent) => {
+    const interaction = getInteractionData(svgElement, model, event.target);
+    if (!interaction || interaction.element === hovered) return;
+    hovered = interaction.element;
+
+    // Coming back from the tooltip to its anchor keeps it open
+    if (interaction.element === shown) {
+      clearTimeout(timer);
+      return;
+    }
+
+    // Moving straight to another node or edge switches without waiting again
+    if (shown) {
+      show(interaction, interaction.element, false);
+    } else {
+      clearTimeout(timer);
+      timer = setTimeout(() => show(interaction, interaction.element, false), config.showDelay);
+    }
+  };
+
+  const handleMouseOut = (event: MouseEvent) => {
+    if (!hovered || (event.relatedTarget instanceof Node && hovered.contains(event.relatedTarget))) return;
+    hovered = null;
+    if (isFocusTooltip) return;
+
+    if (shown) {
+      release();
+    } else {
+      clearTimeout(timer);
+    }
+  };
+
+  const handleFocusIn = (event: FocusEvent) => {
+    const target = event.target as Element;
+    if (!target.hasAttribute?.('tabindex')) return;
+    const interaction = getInteractionData(svgElement, model, target);
+    if (interaction) show(interaction, target, true);
+  };
+
+  const handleFocusOut = () => {
+    if (isFocusTooltip) hide();
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.key === 'Escape') hide();
+  };
+
+  container.addEventListener('mouseover', handleMouseOver);
+  container.addEventListener('mouseout', handleMouseOut);
+  container.addEventListener('focusin', handleFocusIn);
+  container.addEventListener('focusout', handleFocusOut);
+  document.addEventListener('keydown', handleKeyDown);
+
+  return {
+    hold: () => clearTimeout(timer),
+    release,
+    destroy: () => {
+      hide();
+      container.removeEventListener('mouseover', handleMouseOver);
+      container.removeEventListener('mouseout', handleMouseOut);
+      container.removeEventListener('focusin', handleFocusIn);
+      container.removeEventListener('focusout', handleFocusOut);
+      document.removeEventListener('keydown', handleKeyDown);
+    },
+  };
+}
@@ -0,0 +1,289 @@
+/**
+ * Morph transitions between two renders of a chart
+ *
+ * Before a new SVG replaces the old one, captureSnapshot records where each node was and
+ * copies every node and edge. Once the new SVG is in place, startMorphTransition matches
+ * nodes and edges by their `data-node-id` and `data-edge-id` (see annotateDiagram) and plays
+ * one animation frame loop: surviving nodes slide from their old positions, the viewBox
+ * follows, removed nodes and edges fade out, and new ones fade in. Surviving edges stay put,
+ * or cross-fade with a copy of their old shape when the layout moved them.
+ */
+
+import { DiagramSnapshot, DiagramTransition, TransitionConfig } from './types';
+import { MORPH_EXITING_CLASS, TRANSITION_CONFIG } from './constants';
+import { resolveEasing } from './particleUtils';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Attributes that identify or expose elements; copies drop them so they're never mistaken for the live diagram
+ */
+const IDENTITY_ATTRIBUTES = ['id', 'data-node-id', 'data-edge-id', 'data-id', 'tabindex', 'role', 'aria-label'];
+
+/**
+ * Returns elements carrying an attribute that aren't nested in another element carrying it,
+ * keyed by the attribute's value and occurrence
+ */
+function getOutermost(svgElement: SVGSVGElement, attribute: string): Map<string, SVGGraphicsElement> {
+  const elements = new Map<string, SVGGraphicsElement>();
+  const occurrences = new Map<string, number>();
+
+  svgElement.querySelectorAll(`[${attribute}]`).forEach((element) => {
+    if (element.parentElement?.closest(`[${attribute}]`)) return;
+
+    const value = element.getAttribute(attribute)!;
+    const occurrence = occurrences.get(value) ?? 0;
+    occurrences.set(value, occurrence + 1);
+    elements.set(`${value}\u0000${occurrence}`, element as SVGGraphicsElement);
+  });
+
+  return elements;
+}
+
+/**
+ * Returns the matrix from an element's user space to the SVG's user space
+ * Any zoom transform on the page applies to both, so it cancels out
+ */
+function getUserMatrix(svgElement: SVGSVGElement, element: SVGGraphicsElement): DOMMatrix | null {
+  try {
+    const svgMatrix = svgElement.getScreenCTM();
+    const elementMatrix = element.getScreenCTM();
+    return svgMatrix && elementMatrix ? svgMatrix.inverse().multiply(elementMatrix) : null;
+  } catch {
+    // DOM shims without SVG geometry
+    return null;
+  }
+}
+
+/**
+ * Returns the center of an element's bounding box in the SVG's user space
+ */
+function getCenter(svgElement: SVGSVGElement, element: SVGGraphicsElement): Point | null {
+  const matrix = getUserMatrix(svgElement, element);
+  if (!matrix) return null;
+
+  const box = element.getBBox();
+  const x = box.x + box.width / 2;
+  const y = box.y + box.height / 2;
+  return { x: matrix.a * x + matrix.c * y + matrix.e, y: matrix.b * x + matrix.d * y + matrix.f };
+}
+
+/**
+ * Converts an offset in the SVG's user space into the user space of an element's parent,
+ * where its CSS translate applies, so zoom and scaled groups don't stretch the slide
+ */
+function toParentOffset(svgElement: SVGSVGElement, element: SVGGraphicsElement, offset: Point): Point {
+  const parent = element.parentElement;
+  const matrix = parent instanceof SVGGraphicsElement ? getUserMatrix(svgElement, parent) : null;
+  if (!matrix) return offset;
+
+  const inverse = matrix.inverse();
+  return { x: inverse.a * offset.x + inverse.c * offset.y, y: inverse.b * offset.x + inverse.d * offset.y };
+}
+
+/**
+ * Attributes that place an edge's path and label
+ */
+const SHAPE_ATTRIBUTES = ['d', 'points', 'x', 'y', 'width', 'height', 'transform'];
+
+/**
+ * Describes where an edge is drawn, so two renders of an unchanged edge compare equal
+ */
+function getEdgeShape(svgElement: SVGSVGElement, element: SVGGraphicsElement): string | null {
+  const matrix = getUserMatrix(svgElement, element);
+  if (!matrix) return null;
+
+  const placement = [matrix.a, matrix.b, matrix.c, matrix.d, matrix.e, matrix.f].map((value) => value.toFixed(2));
+  const parts = [element, ...Array.from(element.querySelectorAll('*'))].map((part) =>
+    SHAPE_ATTRIBUTES.map((attribute) => part.getAttribute(attribute) ?? '').join(',')
+  );
+  return [placement.join(','), ...parts, element.textContent ?? ''].join('|');
+}
+
+/**
+ * Copies an element with its full transform baked in, so it can be placed at the SVG's root
+ */
+function copyInPlace(svgElement: SVGSVGElement, element: SVGGraphicsElement): Element | null {
+  const matrix = getUserMatrix(svgElement, element);
+  if (!matrix) return null;
+
+  const copy = element.cloneNode(true) as Element;
+  [copy, ...Array.from(copy.querySelectorAll('*'))].forEach((part) => {
+    IDENTITY_ATTRIBUTES.forEach((attribute) => part.removeAttribute(attribute));
+  });
+  copy.setAttribute('transform', `matrix(${matrix.a},${matrix.b},${matrix.c},${matrix.d},${matrix.e},${matrix.f})`);
+  return copy;
+}
+
+/**
+ * Reads the viewBox attribute as [x, y, width, height]
+ */
+function readViewBox(svgElement: SVGSVGElement): number[] | null {
+  const values = svgElement.getAttribute('viewBox')?.trim().split(/[\s,]+/).map(Number);
+  return values?.length === 4 && values.every(Number.isFinite) ? values : null;
+}
+
+/**
+ * Reads the pixel max-width Mermaid sets on SVGs that size to their container
+ */
+function readMaxWidth(svgElement: SVGSVGElement): number | null {
+  const match = svgElement.style.maxWidth.match(/^([\d.]+)px$/);
+  return match ? parseFloat(match[1]) : null;
+}
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Records node positions and copies of nodes and edges before the SVG is replaced
+ */
+export function captureSnapshot(svgElement: SVGSVGElement): DiagramSnapshot {
+  const snapshot: DiagramSnapshot = {
+    viewBox: readViewBox(svgElement),
+    maxWidth: readMaxWidth(svgElement),
+    nodes: new Map(),
+    nodeCopies: new Map(),
+    edgeCopies: new Map(),
+    edgeShapes: new Map(),
+  };
+
+  getOutermost(svgElement, 'data-node-id').forEach((element, key) => {
+    const center = getCenter(svgElement, element);
+    const copy = copyInPlace(svgElement, element);
+    if (center) snapshot.nodes.set(key, center);
+    if (copy) snapshot.nodeCopies.set(key, copy);
+  });
+
+  getOutermost(svgElement, 'data-edge-id').forEach((element, key) => {
+    const shape = getEdgeShape(svgElement, element);
+    const copy = copyInPlace(svgElement, element);
+    if (shape !== null) snapshot.edgeShapes.set(key, shape);
+    if (copy) snapshot.edgeCopies.set(key, copy);
+  });
+
+  return snapshot;
+}
+
+/**
+ * Morphs a freshly rendered SVG from a snapshot of the previous render
+ * Edge paths change shape, so moved edges cross-fade instead of sliding.
+ */
+export function startMorphTransition(
+  svgElement: SVGSVGElement,
+  snapshot: DiagramSnapshot,
+  options: Partial<TransitionConfig> = {}
+): DiagramTransition {
+  const config = { ...TRANSITION_CONFIG, ...options };
+  const ease = resolveEasing(config.easing);
+
+  const moving: Array<{ element: SVGGraphicsElement; dx: number; dy: number }> = [];
+  const entering: SVGGraphicsElement[] = [];
+  const exiting = document.createElementNS('http://www.w3.org/2000/svg', 'g');
+  exiting.setAttribute('class', MORPH_EXITING_CLASS);
+  exiting.setAttribute('aria-hidden', 'true');
+  exiting.setAttribute('pointer-events', 'none');
+
+  const nodes = getOutermost(svgElement, 'data-node-id');
+  nodes.forEach((element, key) => {
+    const from = snapshot.nodes.get(key);
+    const to = from ? getCenter(svgElement, element) : null;
+    if (!from || !to) {
+      entering.push(element);
+      return;
+    }
+    if (Math.abs(from.x - to.x) > 0.5 || Math.abs(from.y - to.y) > 0.5) {
+      const { x: dx, y: dy } = toParentOffset(svgElement, element, { x: from.x - to.x, y: from.y - to.y });
+      moving.push({ element, dx, dy });
+    }
+  });
+
+  snapshot.nodeCopies.forEach((copy, key) => {
+    if (!nodes.has(key)) exiting.appendChild(copy);
+  });
+
+  // Edges whose shape is unknown on either side are treated as moved
+  const edges = getOutermost(svgElement, 'data-edge-id');
+  edges.forEach((element, key) => {
+    const from = snapshot.edgeShapes.get(key);
+    const isUnchanged = from !== undefined && from === getEdgeShape(svgElement, element);
+    if (isUnchanged) return;
+
+    const copy = snapshot.edgeCopies.get(key);
+    if (copy) exiting.appendChild(copy);
+    entering.push(element);
+  });
+  snapshot.edgeCopies.forEach((copy, key) => {
+    if (!edges.has(key)) exiting.appendChild(copy);
+  });
+
+  const toViewBox = readViewBox(svgElement);
+  const fromViewBox = snapshot.viewBox && toViewBox ? snapshot.viewBox : null;
+  const toMaxWidth = readMaxWidth(svgElement);
+  const fromMaxWidth = snapshot.maxWidth !== null && toMaxWidth !== null ? snapshot.maxWidth : null;
+
+  svgElement.appendChild(exiting);
+
+  const render = (progress: number) => {
+    const t = ease(progress);
+
+    if (fromViewBox && toViewBox) {
+      svgElement.setAttribute('viewBox', fromViewBox.map((value, i) => lerp(value, toViewBox[i], t)).join(' '));
+    }
+    if (fromMaxWidth !== null && toMaxWidth !== null) {
+      svgElement.style.maxWidth = `${lerp(fromMaxWidth, toMaxWidth, t)}px`;
+    }
+
+    moving.forEach(({ element, dx, dy }) => {
+      element.style.translate = `${dx * (1 - t)}px ${dy * (1 - t)}px`;
+    });
+
+    const fadeIn = clamp((progress - config.fadeInStart) / (1 - config.fadeInStart)).toString();
+    entering.forEach((element) => {
+      element.style.opacity = fadeIn;
+    });
+    exiting.style.opacity = (1 - clamp(progress / config.fadeOutEnd)).toString();
+  };
+
+  let animationFrameId: number | undefined;
+  let finished = false;
+
+  const finish = () => {
+    if (finished) return;
+    finished = true;
+    if (animationFrameId !== undefined) {
+      cancelAnimationFrame(animationFrameId);
+    }
+
+    if (toViewBox) svgElement.setAttribute('viewBox', toViewBox.join(' '));
+    if (toMaxWidth !== null) svgElement.style.maxWidth = `${toMaxWidth}px`;
+    moving.forEach(({ element }) => element.style.removeProperty('translate'));
+    entering.forEach((element) => element.style.removeProperty('opacity'));
+    exiting.remove();
+  };
+
+  if (config.duration <= 0) {
+    finish();
+    return { finish };
+  }
+
+  // The first frame is applied right away, so the new SVG is never painted in its final layout
+  render(0);
+
+  let startTime: number | null = null;
+  const animate = (currentTime: number) => {
+    startTime ??= currentTime;
+    const progress = clamp((currentTime - startTime) / config.duration);
+    render(progress);
+    if (progress >= 1) {
+      finish();
+    } else {
+      animationFrameId = requestAnimationFrame(animate);
+    }
+  };
+  animationFrameId = requestAnimationFrame(animate);
+
+  return { finish };
+}
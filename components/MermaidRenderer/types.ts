@@ -2,15 +2,58 @@
  * Type definitions for the Mermaid Renderer component
  */
 
+import type React from 'react';
 import type { MermaidConfig } from 'mermaid';
 
 // Re-export MermaidConfig from mermaid for use in other files
 export type { MermaidConfig };
 
+/**
+ * Names of the built-in theme presets
+ */
+export type ThemePresetName = 'truemed-light' | 'truemed-dark' | 'high-contrast' | 'monochrome' | 'neon';
+
+/**
+ * Theme names accepted by the `theme` prop
+ * 'light' and 'dark' are aliases for the Truemed presets; 'auto' follows prefers-color-scheme.
+ * Presets added with registerThemePreset can be referenced by name as well.
+ */
+export type ThemeName = ThemePresetName | 'light' | 'dark' | 'auto' | (string & {});
+
+/**
+ * Base colors of a theme preset; every other theme value is derived from these
+ */
+export interface ThemePreset {
+  /** Node borders, edges, markers and glows */
+  primary: string;
+  /** Hover strokes, note borders and particle sparkle */
+  secondary: string;
+  /** Label text */
+  text: string;
+  /** Container background color or gradient */
+  background: string;
+  /** Node fill */
+  surface: string;
+  /** Opaque fill for labels, notes and actors */
+  surfaceSolid: string;
+  /** Soft accent used for hover fills and cluster backgrounds */
+  accentSoft: string;
+  /** Light accent used for tertiary fills */
+  accentLight: string;
+  /** Subgraph fill */
+  clusterFill: string;
+  /** Particle core */
+  particle: string;
+  /** Particle outer halo */
+  particleHalo: string;
+}
+
 /**
  * Custom theme configuration for the renderer
  */
 export interface CustomTheme {
+  /** Preset to start from before applying the overrides below */
+  preset?: ThemeName;
   /** Primary color for nodes and edges */
   primaryColor?: string;
   /** Secondary/hover color */
@@ -27,14 +70,159 @@ export interface CustomTheme {
   fontSize?: number;
 }
 
+/**
+ * Options for rendering a static SVG without the component
+ */
+export interface StaticRenderOptions {
+  /** Theme preset name or custom theme, as for the `theme` prop */
+  theme?: ThemeName | CustomTheme;
+  /** Whether the 'auto' theme should use the dark palette (defaults to false) */
+  prefersDark?: boolean;
+  /** ID of the SVG root, used to scope its internal IDs (defaults to a generated ID) */
+  id?: string;
+  /**
+   * Stylesheet embedded in the SVG; pass the contents of `mermaid-vibes/styles.css` for
+   * standalone output, or false when the page already loads it (defaults to the document's stylesheets)
+   */
+  css?: string | false;
+  /** Converts remote actor images to data URIs so the SVG is self-contained (defaults to false) */
+  embedImages?: boolean;
+}
+
+/**
+ * A CustomTheme resolved into everything the renderer consumes
+ */
+export interface ResolvedTheme {
+  /** Mermaid configuration with themeVariables derived from the theme */
+  mermaidConfig: MermaidConfig;
+  /** Particle colors derived from the theme */
+  particleStyle: ParticleStyle;
+  /** CSS custom properties consumed by styles.css */
+  cssVariables: Record<string, string>;
+}
+
+/**
+ * A node as declared in the chart source
+ */
+export interface DiagramNode {
+  /** Mermaid node id from the source (e.g. `A` in `A[Start]`, or a participant name) */
+  id: string;
+  /** Display label */
+  label?: string;
+  /** 1-based line in the chart source where the node first appears (if found) */
+  line?: number;
+  /** Unscoped DOM id Mermaid gave the rendered node (if any) */
+  elementId?: string;
+  /** Tooltip text from a `click` statement (e.g. `click A call fn "tooltip"`) */
+  tooltip?: string;
+}
+
+/**
+ * An edge (or sequence message) as declared in the chart source
+ */
+export interface DiagramEdge {
+  /** Edge id, Mermaid's own where it has one (e.g. `L_A_B_0`), otherwise `message-<index>` */
+  id: string;
+  /** Id of the source node */
+  from: string;
+  /** Id of the target node */
+  to: string;
+  /** Edge label text (if any) */
+  label?: string;
+  /** 1-based line in the chart source that declares the edge (if found) */
+  line?: number;
+}
+
+/**
+ * The node or edge a tooltip is shown for
+ * `tooltip` is the text from the chart's `click` statement (e.g. `click A call fn "tooltip"`), if any.
+ */
+export type TooltipTarget =
+  | { type: 'node'; data: NodeEventData; tooltip?: string }
+  | { type: 'edge'; data: EdgeEventData; tooltip?: string };
+
+/**
+ * How an image is clipped
+ */
+export type ImageShape = 'circle' | 'rounded';
+
+/**
+ * Where an image sits in its node: beside the label, above it, or filling the node behind it
+ */
+export type ImagePosition = 'left' | 'top' | 'background';
+
+/**
+ * An image declared in the chart with `img:<url>` or `icon:<set>-<name>`,
+ * with options from `{size=64,shape=circle,position=top}`
+ */
+export interface NodeImage {
+  /** Image URL (or data URI, for icons registered as SVG markup) */
+  href: string;
+  /** Width and height in pixels */
+  size?: number;
+  shape?: ImageShape;
+  position?: ImagePosition;
+}
+
+/**
+ * Named icons, each an image URL (e.g. a bundled SVG asset) or inline SVG markup
+ */
+export type IconSet = Record<string, string>;
+
+/**
+ * Nodes and edges of a rendered diagram, read from Mermaid's parser
+ */
+export interface DiagramModel {
+  /** Mermaid diagram type, e.g. 'flowchart-v2', 'sequence', 'class', 'stateDiagram', 'er' */
+  type: string;
+  /** Nodes by id */
+  nodes: Map<string, DiagramNode>;
+  /** Edges by id, in source order */
+  edges: Map<string, DiagramEdge>;
+}
+
+/**
+ * Which chains a node focus follows: its ancestors, its descendants, or both
+ */
+export type FocusDirection = 'upstream' | 'downstream' | 'both';
+
+/**
+ * What to highlight, dimming everything else:
+ * a node id (its upstream and downstream chains), a node with a direction,
+ * or two node ids (the shortest path between them)
+ */
+export type DiagramFocus =
+  | string
+  | { node: string; direction?: FocusDirection }
+  | { from: string; to: string };
+
+/**
+ * Node and edge ids covered by a resolved focus
+ */
+export interface FocusResult {
+  nodes: Set<string>;
+  edges: Set<string>;
+}
+
+/**
+ * Live state of a node, e.g. a job in a pipeline
+ */
+export type NodeStatus = 'pending' | 'running' | 'success' | 'failed';
+
 /**
  * Event data for node interactions
  */
 export interface NodeEventData {
   /** The SVG element that was interacted with */
   element: SVGElement;
+  /** Mermaid node id from the source (if the node could be identified) */
+  id?: string;
   /** Node label text (if available) */
   label?: string;
+  /** Mermaid diagram type */
+  diagramType: string;
+  /** 1-based line in the chart source where the node first appears (if found) */
+  line?: number;
   /** Bounding box of the node */
   bounds: DOMRect;
 }
@@ -45,8 +233,230 @@ export interface NodeEventData {
 export interface EdgeEventData {
   /** The SVG path element */
   element: SVGPathElement;
+  /** Edge id (if the edge could be identified) */
+  id?: string;
+  /** Id of the source node */
+  from?: string;
+  /** Id of the target node */
+  to?: string;
   /** Edge label text (if available) */
   label?: string;
+  /** Mermaid diagram type */
+  diagramType: string;
+  /** 1-based line in the chart source that declares the edge (if found) */
+  line?: number;
+}
+
+/**
+ * Built-in particle easings, or a function mapping progress (0-1) to eased progress
+ */
+export type ParticleEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | ((progress: number) => number);
+
+/**
+ * How particles are scheduled across edges
+ * - sequential: one edge after another in document order
+ * - parallel: every edge at once
+ * - flow: from source nodes outward, branches concurrently and merges waiting (message order in sequence diagrams)
+ */
+export type ParticleMode = 'sequential' | 'parallel' | 'flow';
+
+/**
+ * How particles are drawn
+ * - svg: circles inside the diagram SVG
+ * - canvas: a canvas overlay, cheaper for large diagrams (exports still use SVG particles)
+ */
+export type ParticleRenderer = 'svg' | 'canvas';
+
+/**
+ * Per-instance animation settings; anything left out keeps its default
+ */
+export interface AnimationOptions {
+  /** How particles are scheduled across edges (defaults to 'sequential') */
+  particleMode?: ParticleMode;
+  /** How particles are drawn (defaults to 'svg') */
+  particleRenderer?: ParticleRenderer;
+  /** Particles per edge (defaults to 1) */
+  particleCount?: number;
+  /** Particle count multipliers by edge id (see EdgeEventData.id); 0 leaves an edge without particles */
+  edgeWeights?: Record<string, number>;
+  /** Speed multiplier, e.g. 2 for twice as fast (defaults to 1) */
+  speed?: number;
+  /** Shortest trip along an edge in milliseconds, before `speed` (defaults to 2000) */
+  minDuration?: number;
+  /** Longest trip along an edge in milliseconds, before `speed` (defaults to 3500) */
+  maxDuration?: number;
+  /** Particle size multiplier (defaults to 1) */
+  particleSize?: number;
+  /** Easing of the motion along each edge (defaults to 'ease-in-out') */
+  easing?: ParticleEasing;
+  /** Particle color, overriding the theme */
+  particleColor?: string;
+  /** Fraction of each trip spent fading in (defaults to 0.15) */
+  fadeIn?: number;
+  /** Fraction of each trip spent fading out (defaults to 0.15) */
+  fadeOut?: number;
+  /** Pulsing glow on nodes (defaults to true) */
+  nodeGlow?: boolean;
+  /** Length of one node glow cycle in milliseconds (defaults to 4000) */
+  nodeGlowDuration?: number;
+  /** Pulse on edges and messages (defaults to true) */
+  edgePulse?: boolean;
+  /** Length of one edge pulse cycle in milliseconds (defaults to 3000) */
+  edgePulseDuration?: number;
+  /** Pulse on arrowheads (defaults to true) */
+  markerPulse?: boolean;
+  /** Length of one marker pulse cycle in milliseconds (defaults to 3000) */
+  markerPulseDuration?: number;
+  /** Soft halo around particles (defaults to true) */
+  halo?: boolean;
+}
+
+/**
+ * Animation quality levels, from everything on down to no motion
+ * - full: as configured
+ * - reduced: one particle at a time
+ * - minimal: also no glows, pulses or particle halos
+ * - static: no particles or CSS animations
+ */
+export type AnimationQuality = 'full' | 'reduced' | 'minimal' | 'static';
+
+/**
+ * Options for stepping animation quality down on slow devices
+ */
+export interface AdaptiveQualityOptions {
+  /** Frame rate below which quality steps down (defaults to 30) */
+  minFps?: number;
+}
+
+/**
+ * Frame rate of a particle loop over one sample window
+ */
+export interface FrameStats {
+  /** Frames per second */
+  fps: number;
+  /** Average frame time in milliseconds */
+  frameTime: number;
+  /** Longest frame in milliseconds */
+  maxFrameTime: number;
+}
+
+/**
+ * Render and frame metrics reported through onPerformance
+ * Reported once after each render (without frame metrics) and then once per sample window while particles run
+ */
+export interface PerformanceMetrics extends Partial<FrameStats> {
+  /** Milliseconds from the start of the last render until the SVG was enhanced */
+  renderTime: number;
+  /** Particles in the running loop (absent in render reports) */
+  particleCount?: number;
+  /** Current animation quality */
+  quality: AnimationQuality;
+}
+
+/**
+ * AnimationOptions resolved into everything the renderer consumes
+ */
+export interface ResolvedAnimation {
+  /** Particle timing, easing and fading */
+  particleConfig: ParticleConfig;
+  /** Multiplier applied to particle radii */
+  particleSize: number;
+  /** Particle color overriding the theme (if set) */
+  particleColor?: string;
+  /** CSS custom properties for the animation timings */
+  cssVariables: Record<string, string>;
+  /** Container classes that switch effects off */
+  className: string;
+}
+
+/**
+ * Details about a diagram that failed to render
+ */
+export interface RenderErrorInfo {
+  /** 1-based line in the chart source where parsing failed (if known) */
+  line?: number;
+  /** 1-based column within the failing line (if known) */
+  column?: number;
+  /** The chart source that failed to render */
+  chart: string;
+}
+
+/**
+ * Options for the opt-in pan and zoom mode
+ */
+export interface ZoomOptions {
+  /** Smallest allowed zoom level (default 0.2) */
+  minScale?: number;
+  /** Largest allowed zoom level (default 8) */
+  maxScale?: number;
+  /** Show the zoom in / zoom out / reset / fit overlay (default true) */
+  showControls?: boolean;
+}
+
+/**
+ * Imperative API exposed through the component's ref
+ */
+export interface MermaidVibesHandle {
+  /** Scales and centers the whole diagram inside the container */
+  fitToView: () => void;
+  /** Zooms to and centers the node with the given Mermaid id (e.g. `A` in `A[Start]`) */
+  zoomTo: (nodeId: string) => void;
+  /** Restores the diagram to its natural size and position */
+  resetZoom: () => void;
+  /** The rendered SVG element of this instance (null until rendered) */
+  getSvgElement: () => SVGSVGElement | null;
+  /** Exports this diagram in the given format */
+  exportAs: (format: ExportFormat, options?: ExportOptions) => Promise<void>;
+  /** Renders this diagram in the given format and returns it as a Blob */
+  toBlob: (format: ExportFormat, options?: ExportOptions) => Promise<Blob>;
+  /** Renders this diagram in the given format and returns it as a data URL */
+  toDataURL: (format: ExportFormat, options?: ExportOptions) => Promise<string>;
+  /** Exports this diagram as a vector PDF */
+  exportAsPDF: (options?: PdfExportOptions) => Promise<void>;
+  /** Exports the particle animation as a looping GIF or WebM clip */
+  exportAsAnimation: (options?: AnimationExportOptions) => Promise<void>;
+  /** Freezes particles and CSS animations */
+  pauseAnimations: () => void;
+  /** Resumes particles and CSS animations */
+  resumeAnimations: () => void;
+  /** Re-renders the current chart from scratch */
+  rerender: () => void;
+  /** Highlights the node with the given Mermaid id, or clears the highlight when null */
+  highlightNode: (nodeId: string | null) => void;
+}
+
+/**
+ * File formats supported by the export utilities
+ */
+export type ExportFormat = 'png' | 'jpg' | 'svg';
+
+/**
+ * Background painted behind an exported diagram:
+ * 'container' reuses the container's background, 'transparent' leaves it empty
+ * (JPG falls back to white), any other value is a CSS color
+ */
+export type ExportBackground = 'container' | 'transparent' | (string & {});
+
+/**
+ * Options for exporting a diagram
+ */
+export interface ExportOptions {
+  /** Name of the downloaded file (defaults to `diagram.<format>`) */
+  filename?: string;
+  /** Pixel ratio of raster exports (defaults to 2) */
+  scale?: number;
+  /** Target resolution for raster exports; overrides `scale` (96 DPI = scale 1) */
+  dpi?: number;
+  /** Space in CSS pixels around the diagram (defaults to 100) */
+  padding?: number;
+  /** Background behind the diagram (defaults to 'container' for PNG, white for JPG, none for SVG) */
+  background?: ExportBackground;
+  /** JPEG quality between 0 and 1 (defaults to 0.92) */
+  quality?: number;
+  /** Largest width in pixels of a raster export; the scale is reduced to fit */
+  maxWidth?: number;
+  /** Largest height in pixels of a raster export; the scale is reduced to fit */
+  maxHeight?: number;
 }
 
 /**
@@ -56,8 +466,8 @@ export interface MermaidRendererProps {
   /** Mermaid diagram syntax as a string */
   chart: string;
 
-  /** Optional custom theme to override default colors and styles */
-  theme?: CustomTheme;
+  /** Theme preset name or custom theme to override default colors and styles */
+  theme?: ThemeName | CustomTheme;
 
   /** Optional CSS class name for the container */
   className?: string;
@@ -68,17 +478,194 @@ export interface MermaidRendererProps {
   /** Disable particle effects only */
   disableParticles?: boolean;
 
+  /** Particle count, speed, size, easing, color and fading, plus per-effect toggles and timings */
+  animation?: AnimationOptions;
+
+  /** Turn off particles and CSS animations when the user prefers reduced motion (defaults to true) */
+  respectReducedMotion?: boolean;
+
+  /** Step animation quality down (fewer particles, no glows, static) while the frame rate is too low */
+  adaptiveQuality?: boolean | AdaptiveQualityOptions;
+
+  /** Morph from the previous diagram when `chart` changes, or false to swap it instantly */
+  transition?: boolean | TransitionOptions;
+
+  /** Enable wheel/pinch zoom, drag-to-pan, double-click zoom and the zoom control overlay */
+  zoomable?: boolean | ZoomOptions;
+
+  /** Pre-rendered SVG (e.g. from renderToSVGString) shown until the client render completes */
+  initialSvg?: string;
+
+  /** Node or path to highlight, dimming everything else; particles only run along it. Controlled when set (null clears) */
+  focus?: DiagramFocus | null;
+
+  /** Focus on click: a node's chains, shift-click (alt-click when `selectable`) a second node for the shortest path, click the background to clear */
+  focusOnClick?: boolean;
+
+  /** Callback when a click changes the focus (needed to follow clicks when `focus` is controlled) */
+  onFocusChange?: (focus: DiagramFocus | null) => void;
+
+  /** Also render the generated description as a visually hidden list, one item per connection */
+  accessibleList?: boolean;
+
+  /** Select nodes by clicking (shift/cmd/ctrl-click adds or removes) and by dragging a lasso over the background */
+  selectable?: boolean;
+
+  /** Ids of the selected nodes. Controlled when set */
+  selectedNodeIds?: string[];
+
+  /** Callback when a click or the lasso changes the selection (needed to follow it when `selectedNodeIds` is controlled) */
+  onSelectionChange?: (nodeIds: string[]) => void;
+
+  /** Live status by node id, shown on the nodes and the edges into them. Updates don't re-render the diagram */
+  nodeStatus?: Record<string, NodeStatus>;
+
+  /** Show a legend of the statuses in `nodeStatus` (default true) */
+  statusLegend?: boolean;
+
   /** Callback when a node is clicked */
   onNodeClick?: (data: NodeEventData) => void;
 
   /** Callback when a node is hovered */
   onNodeHover?: (data: NodeEventData | null) => void;
 
+  /** Callback when a node is double-clicked (replaces zooming in on double-click for that node) */
+  onNodeDoubleClick?: (data: NodeEventData) => void;
+
+  /** Callback when a node is right-clicked; call `event.preventDefault()` to replace the browser menu */
+  onNodeContextMenu?: (data: NodeEventData, event: MouseEvent) => void;
+
+  /** Callback when a node is pressed and held on a touch screen */
+  onNodeLongPress?: (data: NodeEventData) => void;
+
   /** Callback when an edge is clicked */
   onEdgeClick?: (data: EdgeEventData) => void;
 
   /** Callback when an edge is hovered */
   onEdgeHover?: (data: EdgeEventData | null) => void;
+
+  /** Callback when the background, rather than a node or edge, is clicked */
+  onBackgroundClick?: (event: MouseEvent) => void;
+
+  /** Callback when the chart fails to parse or render */
+  onError?: (error: Error, info: RenderErrorInfo) => void;
+
+  /** Callback when rendering of a new chart begins */
+  onRenderStart?: () => void;
+
+  /** Callback when the diagram has been rendered and enhanced */
+  onRenderComplete?: (svgElement: SVGSVGElement) => void;
+
+  /** Callback with render time, particle frame rate and the current animation quality */
+  onPerformance?: (metrics: PerformanceMetrics) => void;
+
+  /** Custom fallback UI shown instead of the built-in error panel */
+  renderError?: (error: Error, info: RenderErrorInfo) => React.ReactNode;
+
+  /** Content of the tooltip shown while a node or edge is hovered or focused. Defaults to the chart's `click` tooltip text */
+  renderTooltip?: (target: TooltipTarget) => React.ReactNode;
+}
+
+/**
+ * A problem with the editor's source, reported by Mermaid's parser or found in an image declaration
+ */
+export interface EditorDiagnostic {
+  /** Parser message */
+  message: string;
+  /** 1-based line of the problem in the source (if known) */
+  line?: number;
+  /** 1-based column within the line (if known) */
+  column?: number;
+  /** Warnings, such as malformed image declarations, don't stop the chart from rendering (default 'error') */
+  severity?: 'error' | 'warning';
+}
+
+/**
+ * Kinds of text the editor highlights
+ */
+export type EditorTokenType = 'keyword' | 'arrow' | 'string' | 'label' | 'comment' | 'image' | 'text';
+
+/**
+ * A highlighted run of text on one line of the editor
+ */
+export interface EditorToken {
+  type: EditorTokenType;
+  text: string;
+}
+
+/**
+ * Props for the MermaidVibesEditor component
+ */
+export interface MermaidVibesEditorProps {
+  /** Chart source; controlled when set */
+  value?: string;
+
+  /** Initial chart source when uncontrolled */
+  defaultValue?: string;
+
+  /** Callback with the new source on every edit */
+  onChange?: (value: string) => void;
+
+  /** Milliseconds after the last edit before the preview re-renders (default 300) */
+  debounce?: number;
+
+  /** Preview beside the source ('horizontal') or below it ('vertical') */
+  layout?: 'horizontal' | 'vertical';
+
+  /** Callback when the source stops parsing (with the diagnostic) or parses again (null) */
+  onDiagnostic?: (diagnostic: EditorDiagnostic | null) => void;
+
+  /** Props for the preview, e.g. theme, animation or event handlers */
+  previewProps?: Omit<MermaidRendererProps, 'chart'>;
+
+  /** Additional CSS class */
+  className?: string;
+}
+
+/**
+ * Current pan/zoom transform of the diagram
+ */
+export interface ZoomTransform {
+  /** Horizontal translation in pixels */
+  x: number;
+  /** Vertical translation in pixels */
+  y: number;
+  /** Zoom level (1 = natural size) */
+  scale: number;
+}
+
+/**
+ * Configuration for pan and zoom behavior
+ */
+export interface ZoomConfig {
+  /** Smallest allowed zoom level */
+  minScale: number;
+  /** Largest allowed zoom level */
+  maxScale: number;
+  /** Zoom factor applied by the zoom in/out buttons */
+  step: number;
+  /** How strongly wheel deltas affect the zoom level */
+  wheelSensitivity: number;
+  /** Padding in pixels kept around the diagram when fitting to view */
+  fitPadding: number;
+  /** Fraction of the viewport a node should fill after zoomTo */
+  focusFraction: number;
+  /** Duration of animated zoom transitions in milliseconds */
+  transitionMs: number;
+}
+
+/**
+ * Controller returned by createZoomController
+ */
+export interface ZoomController {
+  zoomIn: () => void;
+  zoomOut: () => void;
+  reset: () => void;
+  fitToView: () => void;
+  zoomToElement: (element: Element) => void;
+  getTransform: () => ZoomTransform;
+  /** Removes all listeners and clears the transform */
+  destroy: () => void;
 }
 
 /**
@@ -86,6 +673,12 @@ export interface MermaidRendererProps {
  * Particles run sequentially through edges
  */
 export interface ParticleConfig {
+  /** How particles are scheduled across edges */
+  mode: ParticleMode;
+  /** How particles are drawn */
+  renderer: ParticleRenderer;
+  /** Particle count multipliers by edge id */
+  edgeWeights?: Record<string, number>;
   /** Number of particles per arrow path */
   particleCount: number;
   /** Minimum animation duration in milliseconds */
@@ -94,16 +687,18 @@ export interface ParticleConfig {
   maxDuration: number;
   /** Duration multiplier based on path length */
   durationMultiplier: number;
+  /** Easing of the motion along each edge */
+  easing: ParticleEasing;
+  /** Fraction of each trip spent fading in */
+  fadeIn: number;
+  /** Fraction of each trip spent fading out */
+  fadeOut: number;
 }
 
 /**
- * Data structure for tracking individual particle animations
+ * One particle's scheduled trip along an edge
  */
-export interface ParticleAnimation {
-  /** The main particle circle element */
-  element: SVGCircleElement;
-  /** The inner glow circle element */
-  glowElement: SVGCircleElement;
+export interface ParticleTrip {
   /** The path along which the particle travels */
   path: SVGPathElement;
   /** Total length of the path */
@@ -114,6 +709,244 @@ export interface ParticleAnimation {
   offset: number;
   /** Timestamp when animation should start */
   startTime: number;
+  /** Maps linear progress (0-1) to eased progress */
+  easing: (progress: number) => number;
+  /** Fraction of the trip spent fading in */
+  fadeIn: number;
+  /** Fraction of the trip spent fading out */
+  fadeOut: number;
+}
+
+/**
+ * Data structure for tracking individual particle animations
+ */
+export interface ParticleAnimation extends ParticleTrip {
+  /** The main particle circle element */
+  element: SVGCircleElement;
+  /** The inner glow circle element */
+  glowElement: SVGCircleElement;
+}
+
+/**
+ * Timing of one full particle sequence cycle
+ */
+export interface SequenceTiming {
+  /** Start time of the first particle */
+  sequenceStartTime: number;
+  /** Time until the last particle finishes, after which the sequence loops */
+  totalSequenceDuration: number;
+}
+
+/**
+ * Options for the morph transition played when the chart changes
+ */
+export interface TransitionOptions {
+  /** Length of the transition in milliseconds (default 600) */
+  duration?: number;
+  /** Easing of node movement (default 'ease-in-out') */
+  easing?: ParticleEasing;
+}
+
+/**
+ * Defaults and phases of the morph transition
+ */
+export interface TransitionConfig {
+  duration: number;
+  easing: ParticleEasing;
+  /** Fraction of the transition after which removed elements have faded out */
+  fadeOutEnd: number;
+  /** Fraction of the transition at which added elements start fading in */
+  fadeInStart: number;
+}
+
+/**
+ * Layout of a rendered diagram, captured before it is replaced so the next one can morph from it
+ */
+export interface DiagramSnapshot {
+  /** viewBox of the SVG, as [x, y, width, height] */
+  viewBox: number[] | null;
+  /** max-width Mermaid set on the SVG, in pixels */
+  maxWidth: number | null;
+  /** Node centers in SVG user units, keyed by node id and occurrence (sequence actors are drawn twice) */
+  nodes: Map<string, { x: number; y: number }>;
+  /** Copies of the nodes, keyed like `nodes`, positioned in the SVG's user space */
+  nodeCopies: Map<string, Element>;
+  /** Copies of the edge paths and labels, keyed by edge id and occurrence, positioned in the SVG's user space */
+  edgeCopies: Map<string, Element>;
+  /** Geometry of each edge, keyed like `edgeCopies`, to tell moved edges from ones that stayed put */
+  edgeShapes: Map<string, string>;
+}
+
+/**
+ * Handle for a running morph transition
+ */
+export interface DiagramTransition {
+  /** Jumps to the end state and cleans up */
+  finish: () => void;
+}
+
+/**
+ * Node and edge callbacks, read by the delegated listeners when an event fires
+ */
+export type InteractionHandlers = Pick<
+  MermaidRendererProps,
+  | 'onNodeClick'
+  | 'onNodeHover'
+  | 'onNodeDoubleClick'
+  | 'onNodeContextMenu'
+  | 'onNodeLongPress'
+  | 'onEdgeClick'
+  | 'onEdgeHover'
+  | 'onBackgroundClick'
+>;
+
+/**
+ * Pointer gesture thresholds
+ */
+export interface InteractionConfig {
+  /** How long a touch must be held on a node to count as a long press, in milliseconds */
+  longPressDelay: number;
+  /** Distance in pixels a held touch may move before it no longer counts as a long press */
+  longPressTolerance: number;
+  /** Distance in pixels a drag must cover before it draws a lasso */
+  lassoThreshold: number;
+}
+
+/**
+ * Tooltip timing and placement
+ */
+export interface TooltipConfig {
+  /** Delay before a hovered node or edge shows its tooltip, in milliseconds */
+  showDelay: number;
+  /** Delay before the tooltip hides once the pointer leaves, in milliseconds */
+  hideDelay: number;
+  /** Gap in pixels between the tooltip and its anchor */
+  offset: number;
+  /** Minimum distance in pixels kept from the window edges */
+  margin: number;
+}
+
+/**
+ * Image defaults and spacing
+ */
+export interface ImageConfig {
+  /** Width and height in pixels */
+  size: number;
+  shape: ImageShape;
+  position: ImagePosition;
+  /** Gap in pixels between the image and the label */
+  gap: number;
+  /** Minimum space in pixels kept between the image and label and the node's edge */
+  inset: number;
+  /** Corner radius of rounded images, in pixels */
+  borderRadius: number;
+}
+
+/**
+ * A tooltip being shown, with the element it is anchored to
+ */
+export interface ActiveTooltip {
+  target: TooltipTarget;
+  anchor: Element;
+  /** The focused element, when the tooltip was opened from the keyboard */
+  focused?: Element;
+}
+
+/**
+ * Handle for a running particle animation loop
+ */
+export interface ParticleLoop {
+  /** Stops the loop permanently */
+  stop: () => void;
+  /** Freezes particles in place */
+  pause: () => void;
+  /** Continues from where the loop was paused */
+  resume: () => void;
+  /** Number of particles the loop animates */
+  particleCount: number;
+}
+
+/**
+ * Thresholds for frame rate measurement and adaptive quality
+ */
+export interface PerformanceConfig {
+  /** Frame rate below which adaptive quality steps down */
+  minFps: number;
+  /** Length of one frame rate sample in milliseconds */
+  sampleWindow: number;
+  /** Consecutive slow samples before stepping down */
+  slowSamples: number;
+  /** Gap between frames in milliseconds treated as a pause rather than a slow frame */
+  maxFrameGap: number;
+}
+
+/**
+ * Standard page sizes for PDF export, or a custom [width, height] in points
+ */
+export type PdfPageSize = 'a3' | 'a4' | 'a5' | 'letter' | 'legal' | 'tabloid' | [number, number];
+
+/**
+ * Options for exporting a diagram as a vector PDF
+ */
+export interface PdfExportOptions {
+  /** Name of the downloaded file (defaults to `diagram.pdf`) */
+  filename?: string;
+  /** Page size (defaults to 'a4') */
+  pageSize?: PdfPageSize;
+  /** Page orientation; 'auto' follows the diagram's aspect ratio (defaults to 'auto') */
+  orientation?: 'portrait' | 'landscape' | 'auto';
+  /** Page margin in points (defaults to 36, i.e. half an inch) */
+  margin?: number;
+  /** Heading printed above the diagram, also used as the document title */
+  title?: string;
+  /** Text printed at the bottom of the page */
+  footer?: string;
+}
+
+/**
+ * File formats supported by animation export
+ */
+export type AnimationFormat = 'gif' | 'webm';
+
+/**
+ * Options for exporting the particle animation as a looping clip
+ */
+export interface AnimationExportOptions
+  extends Pick<ExportOptions, 'filename' | 'scale' | 'dpi' | 'padding' | 'background' | 'maxWidth' | 'maxHeight'> {
+  /** Output format (defaults to 'gif') */
+  format?: AnimationFormat;
+  /** Length of the clip (defaults to one full particle sequence cycle) */
+  durationMs?: number;
+  /** Frames per second (defaults to 20) */
+  fps?: number;
+}
+
+/**
+ * Defaults used when exporting diagrams
+ */
+export interface ExportConfig {
+  /** Pixel ratio of raster exports */
+  scale: number;
+  /** Padding in CSS pixels around SVG and raster exports */
+  padding: number;
+  /** JPEG quality between 0 and 1 */
+  quality: number;
+  /** Resolution that corresponds to scale 1 */
+  baseDpi: number;
+  /** Background used when the container's background can't be resolved */
+  fallbackBackground: string;
+  /** Default PDF page margin in points */
+  pdfMargin: number;
+  /** Font size in points of the PDF title */
+  pdfTitleSize: number;
+  /** Font size in points of the PDF footer */
+  pdfFooterSize: number;
+  /** Hex color of the PDF title and footer when the theme's text color can't be resolved */
+  pdfTextColor: string;
+  /** Frames per second of animation exports */
+  animationFps: number;
+  /** Pixel ratio of animation exports */
+  animationScale: number;
 }
 
 /**
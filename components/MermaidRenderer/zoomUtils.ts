@@ -0,0 +1,212 @@
+/**
+ * Utilities for panning and zooming a rendered diagram
+ *
+ * The transform is applied as a CSS transform on the element wrapping the SVG,
+ * so particles move with the diagram and getBoundingClientRect() (used for
+ * NodeEventData bounds) keeps reporting on-screen positions.
+ */
+
+import { ZoomConfig, ZoomController, ZoomTransform } from './types';
+import { ZOOM_CONFIG } from './constants';
+
+/**
+ * Distance in pixels a pointer must move before a press becomes a pan
+ */
+const DRAG_THRESHOLD = 3;
+
+/**
+ * Creates a zoom controller for `content` inside `viewport`
+ * Wheel, pinch, drag and double-click handlers are only attached when `interactive` is true;
+ * the programmatic methods always work.
+ */
+export function createZoomController(
+  viewport: HTMLElement,
+  content: HTMLElement,
+  interactive: boolean,
+  config: ZoomConfig = ZOOM_CONFIG
+): ZoomController {
+  let transform: ZoomTransform = { x: 0, y: 0, scale: 1 };
+
+  const clampScale = (scale: number) => Math.min(config.maxScale, Math.max(config.minScale, scale));
+
+  const apply = (next: ZoomTransform, animate: boolean) => {
+    transform = next;
+    content.style.transformOrigin = '0 0';
+    content.style.transition = animate ? `transform ${config.transitionMs}ms ease-out` : 'none';
+    content.style.transform = `translate(${next.x}px, ${next.y}px) scale(${next.scale})`;
+  };
+
+  /**
+   * Zooms to `scale` keeping the given client-space point fixed on screen
+   */
+  const zoomAtPoint = (scale: number, clientX: number, clientY: number, animate: boolean) => {
+    const nextScale = clampScale(scale);
+    const rect = content.getBoundingClientRect();
+    const offsetX = clientX - rect.left;
+    const offsetY = clientY - rect.top;
+    const ratio = nextScale / transform.scale;
+
+    apply(
+      {
+        x: transform.x + offsetX * (1 - ratio),
+        y: transform.y + offsetY * (1 - ratio),
+        scale: nextScale,
+      },
+      animate
+    );
+  };
+
+  const zoomAtCenter = (scale: number) => {
+    const rect = viewport.getBoundingClientRect();
+    zoomAtPoint(scale, rect.left + rect.width / 2, rect.top + rect.height / 2, true);
+  };
+
+  /**
+   * Centers a rectangle given in the content's untransformed coordinates
+   */
+  const centerOn = (x: number, y: number, width: number, height: number, scale: number) => {
+    const nextScale = clampScale(scale);
+    apply(
+      {
+        x: (viewport.clientWidth - width * nextScale) / 2 - content.offsetLeft - x * nextScale,
+        y: (viewport.clientHeight - height * nextScale) / 2 - content.offsetTop - y * nextScale,
+        scale: nextScale,
+      },
+      true
+    );
+  };
+
+  const fitToView = () => {
+    const width = content.offsetWidth;
+    const height = content.offsetHeight;
+    if (!width || !height) return;
+
+    const availableWidth = viewport.clientWidth - config.fitPadding * 2;
+    const availableHeight = viewport.clientHeight - config.fitPadding * 2;
+    centerOn(0, 0, width, height, Math.min(availableWidth / width, availableHeight / height));
+  };
+
+  const zoomToElement = (element: Element) => {
+    const rect = element.getBoundingClientRect();
+    const contentRect = content.getBoundingClientRect();
+    if (!rect.width || !rect.height) return;
+
+    // Convert the element's on-screen box back into untransformed content coordinates
+    const x = (rect.left - contentRect.left) / transform.scale;
+    const y = (rect.top - contentRect.top) / transform.scale;
+    const width = rect.width / transform.scale;
+    const height = rect.height / transform.scale;
+    const scale = Math.min(
+      (viewport.clientWidth * config.focusFraction) / width,
+      (viewport.clientHeight * config.focusFraction) / height
+    );
+
+    centerOn(x, y, width, height, scale);
+  };
+
+  const listeners: Array<() => void> = [];
+  const listen = <K extends keyof HTMLElementEventMap>(
+    target: HTMLElement,
+    type: K,
+    handler: (event: HTMLElementEventMap[K]) => void,
+    options?: AddEventListenerOptions
+  ) => {
+    target.addEventListener(type, handler, options);
+    listeners.push(() => target.removeEventListener(type, handler, options));
+  };
+
+  if (interactive) {
+    const pointers = new Map<number, { x: number; y: number }>();
+    let pinchDistance = 0;
+    let dragDistance = 0;
+
+    listen(viewport, 'wheel', (event) => {
+      event.preventDefault();
+      // Normalize line/page deltas to pixels
+      const delta = event.deltaMode === 1 ? event.deltaY * 16 : event.deltaMode === 2 ? event.deltaY * 400 : event.deltaY;
+      zoomAtPoint(transform.scale * Math.exp(-delta * config.wheelSensitivity), event.clientX, event.clientY, false);
+    }, { passive: false });
+
+    listen(viewport, 'pointerdown', (event) => {
+      if (event.button !== 0 || (event.target as Element).closest?.('.mermaid-zoom-controls')) return;
+      pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+      if (pointers.size === 1) {
+        dragDistance = 0;
+      }
+      if (pointers.size === 2) {
+        const [a, b] = Array.from(pointers.values());
+        pinchDistance = Math.hypot(a.x - b.x, a.y - b.y);
+      }
+    });
+
+    listen(viewport, 'pointermove', (event) => {
+      const previous = pointers.get(event.pointerId);
+      if (!previous) return;
+
+      const current = { x: event.clientX, y: event.clientY };
+      pointers.set(event.pointerId, current);
+
+      if (pointers.size === 1) {
+        const dx = current.x - previous.x;
+        const dy = current.y - previous.y;
+        dragDistance += Math.abs(dx) + Math.abs(dy);
+
+        if (dragDistance > DRAG_THRESHOLD) {
+          if (!viewport.hasPointerCapture(event.pointerId)) {
+            viewport.setPointerCapture(event.pointerId);
+          }
+          viewport.classList.add('is-panning');
+          apply({ ...transform, x: transform.x + dx, y: transform.y + dy }, false);
+        }
+      } else if (pointers.size === 2) {
+        const [a, b] = Array.from(pointers.values());
+        const distance = Math.hypot(a.x - b.x, a.y - b.y);
+        if (pinchDistance > 0) {
+          zoomAtPoint(transform.scale * (distance / pinchDistance), (a.x + b.x) / 2, (a.y + b.y) / 2, false);
+        }
+        pinchDistance = distance;
+        dragDistance = Infinity;
+      }
+    });
+
+    const endPointer = (event: PointerEvent) => {
+      pointers.delete(event.pointerId);
+      if (pointers.size === 0) {
+        viewport.classList.remove('is-panning');
+      }
+      pinchDistance = 0;
+    };
+    listen(viewport, 'pointerup', endPointer);
+    listen(viewport, 'pointercancel', endPointer);
+
+    // Swallow the click that ends a pan so it doesn't trigger node/edge handlers
+    listen(viewport, 'click', (event) => {
+      if (dragDistance > DRAG_THRESHOLD) {
+        event.stopPropagation();
+        event.preventDefault();
+        dragDistance = 0;
+      }
+    }, { capture: true });
+
+    listen(viewport, 'dblclick', (event) => {
+      if ((event.target as Element).closest?.('.mermaid-zoom-controls')) return;
+      const factor = event.shiftKey ? 1 / config.step : config.step;
+      zoomAtPoint(transform.scale * factor * factor, event.clientX, event.clientY, true);
+    });
+  }
+
+  return {
+    zoomIn: () => zoomAtCenter(transform.scale * config.step),
+    zoomOut: () => zoomAtCenter(transform.scale / config.step),
+    reset: () => apply({ x: 0, y: 0, scale: 1 }, true),
+    fitToView,
+    zoomToElement,
+    getTransform: () => ({ ...transform }),
+    destroy: () => {
+      listeners.forEach((remove) => remove());
+      content.style.transform = '';
+      content.style.transition = '';
+      viewport.classList.remove('is-panning');
+    },
+  };
+}
@@ -6,14 +6,60 @@
 
 export {
   MermaidVibes,
+  exportAs,
   exportAsPNG,
   exportAsJPG,
   exportAsSVG,
+  exportAsPDF,
+  exportAsAnimation,
+  toBlob,
+  toDataURL,
+  registerThemePreset,
+  getThemePreset,
+  registerIconSet,
+  getIconSet,
   type MermaidRendererProps,
+  type MermaidVibesHandle,
+  type ZoomOptions,
+  type ExportFormat,
+  type ExportOptions,
+  type ExportBackground,
+  type PdfExportOptions,
+  type PdfPageSize,
+  type AnimationExportOptions,
+  type AnimationFormat,
   type CustomTheme,
+  type ThemeName,
+  type ThemePreset,
+  type ThemePresetName,
   type NodeEventData,
   type EdgeEventData,
+  type TooltipTarget,
+  type NodeImage,
+  type ImageShape,
+  type ImagePosition,
+  type IconSet,
+  type DiagramModel,
+  type DiagramNode,
+  type DiagramEdge,
+  type DiagramFocus,
+  type FocusDirection,
+  type NodeStatus,
+  type AnimationOptions,
+  type ParticleEasing,
+  type ParticleMode,
+  type ParticleRenderer,
+  type AnimationQuality,
+  type AdaptiveQualityOptions,
+  type TransitionOptions,
+  type PerformanceMetrics,
+  type RenderErrorInfo,
+  type MermaidVibesEditorProps,
+  type EditorDiagnostic,
 } from '../components/MermaidRenderer';
 
+// The editor imports the component, so it's exported from here rather than the component index
+export { MermaidVibesEditor } from '../components/MermaidRenderer/MermaidVibesEditor';
+
 // Re-export the theme constants for convenience
-export { PRIMARY, ACCENT, BACKGROUND, TEXT } from '../components/MermaidRenderer/theme';
+export { PRIMARY, ACCENT, BACKGROUND, TEXT, THEME_PRESETS } from '../components/MermaidRenderer/theme';
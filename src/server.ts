@@ -0,0 +1,15 @@
+/**
+ * Mermaid Vibes server entry
+ *
+ * Headless rendering for SSR, static sites and email, without the client component
+ */
+
+export { renderToSVGString } from '../components/MermaidRenderer/staticRender';
+export { registerThemePreset, getThemePreset } from '../components/MermaidRenderer/themeUtils';
+export type {
+  StaticRenderOptions,
+  CustomTheme,
+  ThemeName,
+  ThemePreset,
+  ThemePresetName,
+} from '../components/MermaidRenderer/types';
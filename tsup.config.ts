@@ -1,24 +1,35 @@
-import { defineConfig } from 'tsup';
+import { defineConfig, type Options } from 'tsup';
 
-export default defineConfig({
-  entry: ['src/index.ts'],
+const shared: Options = {
   format: ['cjs', 'esm'], // Build for both CommonJS and ES modules
   dts: false, // Disable TypeScript declarations for now due to type conflicts
   sourcemap: true,
-  clean: true,
-  external: ['react', 'react-dom', 'mermaid'], // Don't bundle peer dependencies
+  external: ['react', 'react-dom', 'mermaid', 'jspdf', 'svg2pdf.js', 'gifenc'], // Don't bundle peer dependencies
   splitting: false,
   minify: false, // Keep code readable for debugging
   treeshake: true,
   outDir: 'dist',
-  // Handle CSS files
-  loader: {
-    '.css': 'css',
+};
+
+// The two builds run in parallel, so neither cleans dist; the prebuild:lib script does that first
+export default defineConfig([
+  {
+    ...shared,
+    entry: ['src/index.ts'],
+    // Handle CSS files
+    loader: {
+      '.css': 'css',
+    },
+    // Inject CSS imports
+    esbuildOptions(options) {
+      options.banner = {
+        js: '"use client";', // Mark as React client component
+      };
+    },
   },
-  // Inject CSS imports
-  esbuildOptions(options) {
-    options.banner = {
-      js: '"use client";', // Mark as React client component
-    };
+  {
+    // Server entry: no React, no CSS and no client banner, so it can run in Node and server components
+    ...shared,
+    entry: ['src/server.ts'],
   },
-});
+]);